@@ -45,3 +45,6 @@ export class App {
 	constructor() {
 	}
 }
+export function normalizePath(path: string): string {
+	return path.replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
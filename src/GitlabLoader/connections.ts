@@ -0,0 +1,121 @@
+import { GitlabConnection, GitlabIssuesSettings } from "../SettingsTab/settings-types";
+import { logger } from "../utils/utils";
+
+/** The connection made of the "Gitlab instance URL" and "Personal Access Token" settings. */
+export const DEFAULT_CONNECTION_NAME = "Default";
+
+export function getConnections(settings: GitlabIssuesSettings): Array<GitlabConnection> {
+	const defaultConnection: GitlabConnection = {
+		name: DEFAULT_CONNECTION_NAME,
+		url: settings.gitlabUrl,
+		token: settings.gitlabToken,
+		note: "",
+	};
+	return [defaultConnection, ...settings.connections];
+}
+
+function isSameName(name: string, other: string): boolean {
+	return (name.trim() || DEFAULT_CONNECTION_NAME).toLowerCase() === (other.trim() || DEFAULT_CONNECTION_NAME).toLowerCase();
+}
+
+/** Finds a connection by name, where an empty name stands for the default connection, or null when none has it. */
+export function findConnection(settings: GitlabIssuesSettings, name: string): GitlabConnection | null {
+	return getConnections(settings).find((candidate) => isSameName(candidate.name, name)) ?? null;
+}
+
+/** Finds a connection by name, throwing when it was removed or renamed. */
+export function getConnection(settings: GitlabIssuesSettings, name: string): GitlabConnection {
+	const connection = findConnection(settings, name);
+
+	if (!connection) {
+		throw new Error(`Unknown GitLab connection: ${name.trim()}`);
+	}
+	return connection;
+}
+
+/** Whether the scope or one of the sources loads through the connection. */
+export function isConnectionUsed(settings: GitlabIssuesSettings, name: string): boolean {
+	return !!name.trim() && [settings.connectionName, ...settings.sources.map((source) => source.connection)]
+		.some((connection) => isSameName(connection, name));
+}
+
+/** Returns the scope connection and sources of the settings, pointing those that used a renamed connection at its new name. */
+export function renameConnection(
+	settings: GitlabIssuesSettings,
+	previousName: string,
+	name: string
+): Pick<GitlabIssuesSettings, "connectionName" | "sources"> {
+	const rename = (connection: string) => previousName.trim() && connection.trim() && isSameName(connection, previousName)
+		? name
+		: connection;
+
+	return {
+		connectionName: rename(settings.connectionName),
+		sources: settings.sources.map((source) => ({ ...source, connection: rename(source.connection) })),
+	};
+}
+
+/** Finds the connection whose instance serves a web or API URL, comparing hosts. */
+export function findConnectionForUrl(settings: GitlabIssuesSettings, url: string): GitlabConnection | null {
+	const host = getHost(url);
+	return getConnections(settings).find((connection) => host !== null && getHost(connection.url) === host) ?? null;
+}
+
+/**
+ * Returns the settings with the URL and token of a connection, so everything that builds requests
+ * from `gitlabApiUrl()` and `gitlabToken` talks to that instance.
+ */
+export function withConnection(settings: GitlabIssuesSettings, connection: GitlabConnection): GitlabIssuesSettings {
+	if (connection.name === DEFAULT_CONNECTION_NAME) {
+		return settings;
+	}
+
+	return {
+		...settings,
+		gitlabUrl: connection.url,
+		gitlabToken: connection.token,
+		gitlabApiUrl: () => `${connection.url.replace(/\/+$/, "")}/api/v4`,
+	};
+}
+
+/** Returns the settings for the connection serving `url`, or the settings unchanged when none matches. */
+export function getSettingsForUrl(settings: GitlabIssuesSettings, url: string): GitlabIssuesSettings {
+	const connection = findConnectionForUrl(settings, url);
+	return connection ? withConnection(settings, connection) : settings;
+}
+
+/**
+ * Returns the settings for the connection an item was loaded through, e.g. as recorded in the `connection`
+ * of its note. Items without one, like links or notes synced before it was recorded, use the connection serving their URL,
+ * as do items whose connection was removed or renamed since.
+ */
+export function getSettingsForItem(settings: GitlabIssuesSettings, connection: unknown, url: string): GitlabIssuesSettings {
+	if (typeof connection !== "string" || !connection.trim()) {
+		return getSettingsForUrl(settings, url);
+	}
+
+	const found = findConnection(settings, connection);
+	if (!found) {
+		logger(`Unknown GitLab connection ${connection} for ${url}, using the connection serving it`);
+		return getSettingsForUrl(settings, url);
+	}
+	return withConnection(settings, found);
+}
+
+/**
+ * Identifies an item across instances, whose ids may collide, by its connection and id. Items without a connection,
+ * or with one that is gone, belong to the connection serving their URL.
+ */
+export function getItemKey(settings: GitlabIssuesSettings, connection: unknown, url: unknown, id: number): string {
+	const named = typeof connection === "string" && connection.trim() ? findConnection(settings, connection) : null;
+	const found = named ?? (typeof url === "string" ? findConnectionForUrl(settings, url) : null);
+	return `${(found?.name ?? DEFAULT_CONNECTION_NAME).toLowerCase()}:${id}`;
+}
+
+function getHost(url: string): string | null {
+	try {
+		return new URL(url).host;
+	} catch (error) {
+		return null;
+	}
+}
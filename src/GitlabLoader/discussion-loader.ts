@@ -0,0 +1,74 @@
+import { getItemKey, getSettingsForItem } from "./connections";
+import GitlabApi from "./gitlab-api";
+import { Discussion, IssueNote, ObsidianIssue } from "./issue-types";
+import { GitlabIssuesSettings } from "../SettingsTab/settings-types";
+import PersistentCache from "../utils/persistent-cache";
+import { logger } from "../utils/utils";
+
+export interface CachedNotes {
+	updated_at: string;
+	user_notes_count: number;
+	notes: IssueNote[];
+}
+
+const CONCURRENT_REQUESTS = 5;
+
+/**
+ * Attaches the discussion threads of each issue as `notes`, only asking GitLab again
+ * when the issue's `updated_at` or `user_notes_count` changed since they were cached.
+ */
+export default class DiscussionLoader {
+	constructor(
+		private settings: GitlabIssuesSettings,
+		private cache: PersistentCache<CachedNotes>
+	) {}
+
+	async attachNotes(issues: Array<ObsidianIssue>) {
+		await this.cache.load();
+
+		for (let i = 0; i < issues.length; i += CONCURRENT_REQUESTS) {
+			await Promise.all(
+				issues.slice(i, i + CONCURRENT_REQUESTS).map((issue) => this.attachIssueNotes(issue))
+			);
+		}
+
+		await this.cache.save();
+	}
+
+	private async attachIssueNotes(issue: ObsidianIssue) {
+		const key = getItemKey(this.settings, issue.connection, issue.web_url, issue.id);
+		const cached = this.cache.get(key);
+
+		if (cached && cached.updated_at === issue.updated_at && cached.user_notes_count === issue.user_notes_count) {
+			issue.notes = cached.notes;
+			return;
+		}
+
+		try {
+			const settings = getSettingsForItem(this.settings, issue.connection, issue.web_url);
+			const { items } = await GitlabApi.loadAll<Discussion>(
+				`${settings.gitlabApiUrl()}/projects/${issue.project_id}/issues/${issue.iid}/discussions`,
+				settings.gitlabToken,
+				this.settings.maxPages
+			);
+
+			issue.notes = items
+				.filter((discussion) => discussion.notes.length > 0)
+				.map((discussion) => ({ ...discussion.notes[0], replies: discussion.notes.slice(1) }));
+
+			this.cache.set(key, {
+				updated_at: issue.updated_at,
+				user_notes_count: issue.user_notes_count,
+				notes: issue.notes,
+			});
+		} catch (error) {
+			logger(`Could not load notes of issue ${issue.iid}: ${error.message}`);
+			// An empty discussion would erase the one imported before from the note
+			if (cached) {
+				issue.notes = cached.notes;
+			} else {
+				issue.notesUnavailable = true;
+			}
+		}
+	}
+}
@@ -1,20 +1,213 @@
 import {requestUrl, RequestUrlParam, RequestUrlResponse} from 'obsidian';
+import {logger} from '../utils/utils';
+import {createApiError, getHeader, NetworkError, RateLimitError, ServerError} from './gitlab-errors';
 
+export interface PagedResult<T> {
+	items: Array<T>;
+	/** False when the page limit was hit before GitLab ran out of pages. */
+	complete: boolean;
+}
+
+const PAGE_SIZE = 100;
+const MAX_CONCURRENT_REQUESTS = 4;
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+/** Longer waits are not worth holding a sync for, the request fails instead. */
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+/**
+ * Talks to the GitLab REST API. At most a few requests run at once, each with a timeout. Rate limits
+ * GitLab announces are waited out, and requests failing for a moment (rate limited, 5xx, network)
+ * are retried with exponential backoff. Failures are raised as the errors of `gitlab-errors`.
+ */
 export default class GitlabApi {
+	private static activeRequests = 0;
+	private static waitingRequests: Array<() => void> = [];
+	/** Set when GitLab said the rate limit is used up, requests wait until then. */
+	private static pausedUntil = 0;
 
 	static load<T>(url: string, gitlabToken: string): Promise<T> {
+		return GitlabApi.request(url, gitlabToken)
+			.then((response: RequestUrlResponse) => response.json as Promise<T>);
+	}
+
+	static update<T>(url: string, gitlabToken: string, body: object): Promise<T> {
+		return GitlabApi.request(url, gitlabToken, 'PUT', body)
+			.then((response: RequestUrlResponse) => response.json as Promise<T>);
+	}
+
+	static create<T>(url: string, gitlabToken: string, body: object): Promise<T> {
+		return GitlabApi.request(url, gitlabToken, 'POST', body)
+			.then((response: RequestUrlResponse) => response.json as Promise<T>);
+	}
+
+	/**
+	 * Loads every page of a list endpoint, following the `Link` header (which also covers keyset
+	 * pagination) or falling back to `X-Next-Page`, until GitLab runs out of pages or `maxPages` is reached.
+	 */
+	static async loadAll<T>(url: string, gitlabToken: string, maxPages: number): Promise<PagedResult<T>> {
+		const items: Array<T> = [];
+		let nextUrl: string | null = GitlabApi.withPageSize(url);
+		let loadedPages = 0;
+
+		while (nextUrl && loadedPages < maxPages) {
+			const response: RequestUrlResponse = await GitlabApi.request(nextUrl, gitlabToken);
+			const page: Array<T> = await response.json;
+
+			items.push(...page);
+			loadedPages++;
+			nextUrl = GitlabApi.getNextPageUrl(nextUrl, response.headers ?? {});
+		}
+
+		if (nextUrl) {
+			logger(`Stopped after ${maxPages} pages, some results from ${url} were not loaded`);
+		}
+
+		return { items, complete: nextUrl === null };
+	}
+
+	private static async request(url: string, gitlabToken: string, method?: string, body?: object): Promise<RequestUrlResponse> {
 
 		const headers = { 'PRIVATE-TOKEN': gitlabToken };
 
-		const params: RequestUrlParam = { url: url, headers: headers };
+		// Error statuses are turned into typed errors here rather than thrown by requestUrl
+		const params: RequestUrlParam = { url: url, headers: headers, throw: false };
+
+		if (method) {
+			params.method = method;
+			params.contentType = 'application/json';
+			params.body = JSON.stringify(body ?? {});
+		}
+
+		for (let attempt = 0; ; attempt++) {
+			try {
+				const response = await GitlabApi.send(params);
+				if (response.status < 200 || response.status >= 300) {
+					throw createApiError(url, response.status, response.text, response.headers ?? {});
+				}
+
+				return response;
+			} catch (error) {
+				const delay = GitlabApi.getRetryDelay(error, method, attempt);
+				if (delay === null) {
+					throw error;
+				}
+				logger(`Retrying ${url} in ${delay / 1000} seconds: ${error.message}`);
+				await GitlabApi.wait(delay);
+			}
+		}
+	}
+
+	private static async send(params: RequestUrlParam): Promise<RequestUrlResponse> {
+		await GitlabApi.acquireSlot();
+		try {
+			const pause = GitlabApi.pausedUntil - Date.now();
+			if (pause > 0) {
+				await GitlabApi.wait(pause);
+			}
+
+			const response = await GitlabApi.withTimeout(params.url, requestUrl(params));
+			GitlabApi.trackRateLimit(response.headers ?? {});
+			return response;
+		} finally {
+			GitlabApi.releaseSlot();
+		}
+	}
+
+	private static acquireSlot(): Promise<void> {
+		if (GitlabApi.activeRequests < MAX_CONCURRENT_REQUESTS) {
+			GitlabApi.activeRequests++;
+			return Promise.resolve();
+		}
+		return new Promise((resolve) => GitlabApi.waitingRequests.push(resolve));
+	}
 
-		return requestUrl(params)
-			.then((response: RequestUrlResponse) => {
-				if (response.status !== 200) {
-					throw new Error(response.text);
+	private static releaseSlot() {
+		const next = GitlabApi.waitingRequests.shift();
+		if (next) {
+			// The slot passes straight on to the next request
+			next();
+		} else {
+			GitlabApi.activeRequests--;
+		}
+	}
+
+	private static withTimeout(url: string, request: Promise<RequestUrlResponse>): Promise<RequestUrlResponse> {
+		return new Promise((resolve, reject) => {
+			// requestUrl cannot be aborted, a request that timed out is only no longer waited for
+			const timeout = setTimeout(
+				() => reject(new NetworkError(`GitLab did not answer within ${REQUEST_TIMEOUT_MS / 1000} seconds`, url)),
+				REQUEST_TIMEOUT_MS
+			);
+			request.then(
+				(response) => {
+					clearTimeout(timeout);
+					resolve(response);
+				},
+				(error) => {
+					clearTimeout(timeout);
+					reject(new NetworkError(`Could not reach GitLab: ${error?.message ?? error}`, url));
 				}
+			);
+		});
+	}
+
+	/** Holds further requests once GitLab reports the rate limit as used up, until it resets. */
+	private static trackRateLimit(headers: Record<string, string>) {
+		const remaining = getHeader(headers, 'ratelimit-remaining');
+		const reset = Number(getHeader(headers, 'ratelimit-reset'));
+
+		if (remaining === '0' && reset) {
+			const resetAt = Math.min(reset * 1000, Date.now() + MAX_RETRY_DELAY_MS);
+			GitlabApi.pausedUntil = Math.max(GitlabApi.pausedUntil, resetAt);
+		}
+	}
+
+	/** How long to wait before trying again, or null when the request should fail. */
+	private static getRetryDelay(error: Error, method: string | undefined, attempt: number): number | null {
+		if (attempt >= MAX_RETRIES) {
+			return null;
+		}
+		const backoff = BASE_RETRY_DELAY_MS * Math.pow(2, attempt);
+
+		if (error instanceof RateLimitError) {
+			const delay = error.retryAfterMs ?? backoff;
+			return delay <= MAX_RETRY_DELAY_MS ? delay : null;
+		}
+		// A failed POST may still have created something, only reads and updates are safe to repeat
+		const repeatable = !method || method === 'PUT';
+		return repeatable && (error instanceof ServerError || error instanceof NetworkError) ? backoff : null;
+	}
+
+	private static wait(ms: number): Promise<void> {
+		return new Promise((resolve) => setTimeout(resolve, ms));
+	}
+
+	private static withPageSize(url: string): string {
+		if (/[?&]per_page=/.test(url)) {
+			return url;
+		}
+		return `${url}${url.includes('?') ? '&' : '?'}per_page=${PAGE_SIZE}`;
+	}
+
+	private static getNextPageUrl(currentUrl: string, headers: Record<string, string>): string | null {
+		const link = getHeader(headers, 'link');
+		const nextLink = link?.split(',')
+			.map((part) => part.match(/<([^>]+)>\s*;\s*rel="next"/))
+			.find((match) => match !== null);
+
+		if (nextLink) {
+			return nextLink[1];
+		}
+
+		const nextPage = getHeader(headers, 'x-next-page');
+		if (!nextPage) {
+			return null;
+		}
 
-				return response.json as Promise<T>;
-			});
+		return /[?&]page=\d+/.test(currentUrl)
+			? currentUrl.replace(/([?&])page=\d+/, `$1page=${nextPage}`)
+			: `${currentUrl}&page=${nextPage}`;
 	}
 }
@@ -0,0 +1,98 @@
+/** Raised for a request GitLab answered with an error status. */
+export class GitlabApiError extends Error {
+	constructor(message: string, readonly url: string, readonly status: number | null) {
+		super(message);
+	}
+}
+
+/** 401: the access token is missing, invalid, expired or revoked. */
+export class AuthenticationError extends GitlabApiError {}
+
+/** 403: the access token is valid but may not do this, e.g. a project it lost access to. */
+export class ForbiddenError extends GitlabApiError {}
+
+/** 404: the item does not exist, or is not visible to the access token. */
+export class NotFoundError extends GitlabApiError {}
+
+/** 429: the rate limit is used up. */
+export class RateLimitError extends GitlabApiError {
+	constructor(message: string, url: string, readonly retryAfterMs: number | null) {
+		super(message, url, 429);
+	}
+}
+
+/** 5xx: GitLab failed, usually for a moment. */
+export class ServerError extends GitlabApiError {}
+
+/** GitLab could not be reached, or did not answer in time. */
+export class NetworkError extends GitlabApiError {
+	constructor(message: string, url: string) {
+		super(message, url, null);
+	}
+}
+
+/** The message of an error response: GitLab's JSON `message` or `error`, or the text unless it is an HTML page. */
+function getGitlabMessage(text: string): string | null {
+	try {
+		const body = JSON.parse(text);
+		const message = body?.message ?? body?.error_description ?? body?.error;
+		if (typeof message === "string") {
+			return message;
+		}
+		// Validation errors come as lists of messages by field, e.g. `{"title": ["can't be blank"]}`
+		if (message && typeof message === "object") {
+			return Object.keys(message)
+				.map((field) => `${field} ${[].concat(message[field]).join(", ")}`)
+				.join("; ");
+		}
+	} catch (error) {
+		// Not JSON, e.g. a plain text or HTML error page
+	}
+	const trimmed = (text ?? "").trim();
+	return trimmed && !trimmed.startsWith("<") ? trimmed : null;
+}
+
+/** Reads a response header by its lower case name, whatever case GitLab or a proxy sent it in. */
+export function getHeader(headers: Record<string, string>, name: string): string | undefined {
+	const key = Object.keys(headers).find((header) => header.toLowerCase() === name);
+	return key ? headers[key] : undefined;
+}
+
+/** How long GitLab asked to wait, from `Retry-After` in seconds or as a date, or from `RateLimit-Reset`. */
+export function getRetryAfterMs(headers: Record<string, string>, now = Date.now()): number | null {
+	const retryAfter = getHeader(headers, "retry-after");
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		const delay = isNaN(seconds) ? new Date(retryAfter).getTime() - now : seconds * 1000;
+		if (!isNaN(delay)) {
+			return Math.max(delay, 0);
+		}
+	}
+
+	const reset = Number(getHeader(headers, "ratelimit-reset"));
+	return reset ? Math.max(reset * 1000 - now, 0) : null;
+}
+
+/** The typed error for a response with an error status. */
+export function createApiError(url: string, status: number, text: string, headers: Record<string, string>): GitlabApiError {
+	const message = getGitlabMessage(text);
+
+	switch (status) {
+		case 401:
+			return new AuthenticationError(
+				`GitLab rejected the access token${message ? ` (${message})` : ""}, check it in the plugin settings`,
+				url,
+				status
+			);
+		case 403:
+			return new ForbiddenError(message ?? "The access token may not do this", url, status);
+		case 404:
+			return new NotFoundError(message ?? "Not found, or not visible to the access token", url, status);
+		case 429:
+			return new RateLimitError(message ?? "The GitLab rate limit was reached", url, getRetryAfterMs(headers));
+		default:
+			return status >= 500
+				? new ServerError(message ?? `GitLab failed with HTTP ${status}`, url, status)
+				: new GitlabApiError(message ?? `GitLab answered with HTTP ${status}`, url, status);
+	}
+}
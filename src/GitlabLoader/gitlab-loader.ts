@@ -1,119 +1,453 @@
 import GitlabApi from "./gitlab-api";
 import { GitlabIssue } from "./issue";
-import { App } from "obsidian";
-import Filesystem from "../filesystem";
-import { Issue } from "./issue-types";
-import { GitlabIssuesSettings } from "../SettingsTab/settings-types";
+import { App, TFile } from "obsidian";
+import Filesystem, { getIssueTarget, getNestedDirs, OutputTarget } from "../filesystem";
+import { Issue, Project } from "./issue-types";
+import { GitlabIssuesSettings, GitlabSource } from "../SettingsTab/settings-types";
+import { encodeQuery, parseFilter } from "../SettingsTab/filter-builder";
 import { logger } from "../utils/utils";
+import PersistentCache from "../utils/persistent-cache";
+import DiscussionLoader, { CachedNotes } from "./discussion-loader";
+import MergeRequestLoader, { MERGE_REQUEST_SOURCE, MergeRequestList } from "./merge-request-loader";
+import LabelLoader from "./label-loader";
+import { DEFAULT_CONNECTION_NAME, findConnection, getConnection, getItemKey, withConnection } from "./connections";
+import { createSource } from "./sources";
+import { addHttpError, addSourceReport, addWriteErrors, createSyncReport, describeSource, SyncReport } from "./sync-report";
+
+interface SourceResult {
+	/** The name of the source in the sync report. */
+	name: string;
+	syncKey: string;
+	/** The issue list URL of the source, without the `updated_after` cursor. */
+	url: string;
+	target: OutputTarget;
+	items: Array<Issue>;
+	complete: boolean;
+	fullSync: boolean;
+	/** Set when the source could not be loaded, so that its notes are kept as they are. */
+	failed: boolean;
+	/** The `updated_at` of the earliest issue whose note could not be written, the cursor never moves past it. */
+	unwrittenSince?: string;
+}
+
+/** Triggered on the workspace when a sync finished, whether or not every source could be loaded. */
+export const SYNC_COMPLETE_EVENT = "gitlab-issues:sync-complete";
 
 export default class GitlabLoader {
-	private fs: Filesystem;
 	private settings: GitlabIssuesSettings;
+	private discussionLoader: DiscussionLoader | null;
+	private mergeRequestLoader: MergeRequestLoader;
 
-	constructor(app: App, settings: GitlabIssuesSettings) {
-		this.fs = new Filesystem(app, settings);
+	constructor(
+		private app: App,
+		settings: GitlabIssuesSettings,
+		notesCache?: PersistentCache<CachedNotes>,
+		private labelLoader: LabelLoader | null = null
+	) {
 		this.settings = settings;
+		this.discussionLoader = notesCache ? new DiscussionLoader(settings, notesCache) : null;
+		this.mergeRequestLoader = new MergeRequestLoader(app, settings);
 	}
 
 	getUrl() {
+		const baseUrl = this.getConnectionSettings(this.settings.connectionName).gitlabApiUrl();
+		const filter = encodeQuery(this.settings.filter);
+
 		switch (this.settings.gitlabIssuesLevel) {
 			case "project":
-				return `${this.settings.gitlabApiUrl()}/projects/${
-					this.settings.gitlabAppId
-				}/issues?${this.settings.filter}`;
+				return `${baseUrl}/projects/${encodeURIComponent(this.settings.gitlabAppId)}/issues?${filter}`;
 			case "group":
-				return `${this.settings.gitlabApiUrl()}/groups/${
-					this.settings.gitlabAppId
-				}/issues?${this.settings.filter}`;
+				return `${baseUrl}/groups/${encodeURIComponent(this.settings.gitlabAppId)}/issues?${filter}`;
 			case "personal":
 			default:
-				return `${this.settings.gitlabApiUrl()}/issues?${
-					this.settings.filter
-				}`;
+				return `${baseUrl}/issues?${filter}`;
 		}
 	}
 
-	private parseCustomSources(
-		customString: string
-	): Array<{ type: "project" | "group"; id: string }> {
-		return customString
-			.split(",")
-			.map((source) => source.trim())
-			.filter((source) => source.length > 0)
-			.map((source) => {
-				const [typePrefix, id] = source.split(":");
-				const type = typePrefix.trim().toUpperCase();
-
-				if (type === "G") {
-					return { type: "group" as const, id: id.trim() };
-				} else if (type === "P") {
-					return { type: "project" as const, id: id.trim() };
-				} else {
-					throw new Error(
-						`Invalid source type: ${type}. Use G for group or P for project.`
-					);
-				}
-			});
+	/** The sources the configured scope loads from: the custom source list, or the single personal, project or group scope. */
+	private getSources(): Array<GitlabSource> {
+		if (this.settings.gitlabIssuesLevel === "custom") {
+			return this.settings.sources;
+		}
+		return [{
+			...createSource(this.settings.gitlabIssuesLevel, this.settings.gitlabAppId),
+			connection: this.settings.connectionName,
+		}];
 	}
 
-	private getUrlForSource(type: "project" | "group", id: string): string {
-		const baseUrl = this.settings.gitlabApiUrl();
-		const filter = this.settings.filter;
+	private getConnectionSettings(connectionName: string): GitlabIssuesSettings {
+		return withConnection(this.settings, getConnection(this.settings, connectionName));
+	}
 
-		if (type === "project") {
-			return `${baseUrl}/projects/${id}/issues?${filter}`;
-		} else {
-			return `${baseUrl}/groups/${id}/issues?${filter}`;
+	private getUrlForSource(source: GitlabSource): string {
+		const baseUrl = this.getConnectionSettings(source.connection).gitlabApiUrl();
+		const filter = encodeQuery(source.filter || this.settings.filter);
+
+		switch (source.type) {
+			case "project":
+				return `${baseUrl}/projects/${encodeURIComponent(source.id)}/issues?${filter}`;
+			case "group":
+				return `${baseUrl}/groups/${encodeURIComponent(source.id)}/issues?${filter}`;
+			case "personal":
+			default:
+				return `${baseUrl}/issues?${filter}`;
 		}
 	}
 
-	async loadIssues() {
+	/** Where the issues of a source are written, honouring its output folder and template overrides. */
+	private getTargetForSource(source: GitlabSource): OutputTarget {
+		const target = getIssueTarget(this.settings);
+		return {
+			...target,
+			outputDir: source.outputDir || target.outputDir,
+			templateFile: source.templateFile || target.templateFile,
+		};
+	}
+
+	getMergeRequestLists(): Array<MergeRequestList> {
+		return this.getSources().map((source) => {
+			const name = `${describeSource(source)} merge requests`;
+			const connection = source.connection;
+
+			switch (source.type) {
+				case "project":
+					return { name, path: `/projects/${encodeURIComponent(source.id)}/merge_requests`, connection };
+				case "group":
+					return { name, path: `/groups/${encodeURIComponent(source.id)}/merge_requests`, connection };
+				case "personal":
+				default:
+					return { name, path: "/merge_requests", connection };
+			}
+		});
+	}
+
+	/** Syncs the issues, and merge requests when enabled, and reports what was written and what failed. */
+	async loadIssues(): Promise<SyncReport> {
+		const report = createSyncReport();
+
 		if (this.settings.gitlabIssuesLevel === "custom") {
-			await this.loadCustomIssues();
+			await this.loadCustomIssues(report);
 		} else {
-			await this.loadSingleSourceIssues();
+			await this.loadSingleSourceIssues(report);
 		}
+
+		if (this.settings.importMergeRequests) {
+			await this.loadMergeRequests(report);
+		}
+
+		report.finishedAt = new Date().toISOString();
+		return report;
+	}
+
+	private async loadMergeRequests(report: SyncReport) {
+		try {
+			const summary = await this.mergeRequestLoader.loadMergeRequests(this.getMergeRequestLists());
+			addSourceReport(report, "Merge requests", Array.from(summary.outcomes.keys()), summary, summary.purged);
+			summary.failedLists.forEach(({ name, error }) => addHttpError(report, name, error));
+			addWriteErrors(report, summary);
+		} catch (error) {
+			logger(error.message);
+			addHttpError(report, "Merge requests", error);
+		}
+	}
+
+	/** Lists the projects the configured scope covers, e.g. to pick where a new issue is created. */
+	async loadProjects(): Promise<Array<Project>> {
+		const projects = await Promise.all(this.getSources().map(async (source) => {
+			const sourceSettings = this.getConnectionSettings(source.connection);
+			const baseUrl = sourceSettings.gitlabApiUrl();
+			const connection = getConnection(this.settings, source.connection).name;
+
+			if (source.type === "project") {
+				const project = await GitlabApi.load<Project>(`${baseUrl}/projects/${encodeURIComponent(source.id)}`, sourceSettings.gitlabToken);
+				return [{ ...project, connection }];
+			}
+			const { items } = await GitlabApi.loadAll<Project>(
+				source.type === "group"
+					? `${baseUrl}/groups/${encodeURIComponent(source.id)}/projects?include_subgroups=true&archived=false`
+					: `${baseUrl}/projects?membership=true&min_access_level=20&archived=false&order_by=last_activity_at`,
+				sourceSettings.gitlabToken,
+				this.settings.maxPages
+			);
+			return items.map((project) => ({ ...project, connection }));
+		}));
+
+		return projects.flat();
+	}
+
+	/**
+	 * Searches the issues of every source by title and description, ignoring the source filters so any
+	 * issue can be found. Personal sources keep the scope of their filter, GitLab's `created_by_me` by
+	 * default, since `all` would search every public issue of the instance.
+	 */
+	async searchIssues(search: string, limit: number): Promise<Array<Issue>> {
+		const query = `search=${encodeURIComponent(search)}&order_by=updated_at&per_page=${limit}`;
+		const results = await Promise.all(this.getSources().map((source) => {
+			const sourceSettings = this.getConnectionSettings(source.connection);
+			const baseUrl = sourceSettings.gitlabApiUrl();
+			const scope = parseFilter(source.filter || this.settings.filter).scope || "created_by_me";
+			const url = source.type === "personal"
+				? `${baseUrl}/issues?scope=${encodeURIComponent(scope)}&${query}`
+				: `${baseUrl}/${source.type}s/${encodeURIComponent(source.id)}/issues?${query}`;
+
+			return GitlabApi.load<Array<Issue>>(url, sourceSettings.gitlabToken).catch((error) => {
+				logger(`Could not search issues of ${url}: ${error.message}`);
+				return [];
+			});
+		}));
+
+		// Sources may overlap, like a group and one of its projects
+		const issues = new Map<string, Issue>();
+		results.flat().forEach((issue) => issues.set(issue.web_url, issue));
+		return Array.from(issues.values());
+	}
+
+	private getSyncKey(type: string, id: string, connectionName: string): string {
+		const key = type === "personal" ? type : `${type}:${id}`;
+		// A source whose connection is gone still needs a key to be reported and kept from purges by
+		const connection = findConnection(this.settings, connectionName)?.name ?? connectionName.trim();
+		return connection === DEFAULT_CONNECTION_NAME ? key : `${connection}/${key}`;
 	}
 
-	private processIssuesData(issues: Array<Issue>) {
-		const gitlabIssues = issues.map(
-			(rawIssue: Issue) => new GitlabIssue(rawIssue)
+	/**
+	 * Returns the `updated_after` cursor for an incremental sync of the source, or null when a full
+	 * reconciliation is due so that issues deleted or filtered out since the last sync can be purged.
+	 * A cursor recorded for another URL, e.g. before the filter was widened, would skip issues that match now.
+	 */
+	private getUpdatedAfter(syncKey: string, url: string): string | null {
+		const cursor = this.settings.syncState[syncKey];
+
+		if (!this.settings.incrementalSync || !cursor || cursor.url !== url) {
+			return null;
+		}
+
+		const fullSyncIntervalMs = parseInt(this.settings.fullSyncInterval) * 60 * 60 * 1000;
+		if (Date.now() - new Date(cursor.lastFullSync).getTime() >= fullSyncIntervalMs) {
+			return null;
+		}
+
+		return cursor.updatedAfter;
+	}
+
+	/** Loads the issues of a source through its connection, which may be one of several accounts on the same instance. */
+	private async loadSource(
+		name: string,
+		syncKey: string,
+		url: string,
+		target: OutputTarget,
+		connectionName: string
+	): Promise<SourceResult> {
+		const updatedAfter = this.getUpdatedAfter(syncKey, url);
+		const requestUrl = updatedAfter
+			? `${url}&updated_after=${encodeURIComponent(updatedAfter)}`
+			: url;
+		const connection = getConnection(this.settings, connectionName).name;
+
+		const { items, complete } = await GitlabApi.loadAll<Issue>(
+			requestUrl,
+			this.getConnectionSettings(connection).gitlabToken,
+			this.settings.maxPages
 		);
 
-		if (this.settings.purgeIssues) {
-			this.fs.purgeExistingIssues();
+		return {
+			name,
+			syncKey,
+			url,
+			target,
+			items: items.map((issue) => ({ ...issue, connection, source: syncKey })),
+			complete,
+			fullSync: updatedAfter === null,
+			failed: false,
+		};
+	}
+
+	private updateSyncState(results: Array<SourceResult>, syncStartedAt: string) {
+		const syncState = { ...this.settings.syncState };
+
+		results
+			.filter((result) => result.complete)
+			.forEach((result) => {
+				const previous = syncState[result.syncKey];
+				// Use GitLab's own timestamps so clock drift on this device can never skip an update
+				const latestUpdate = result.items
+					.map((issue) => issue.updated_at)
+					.reduce<string | undefined>((latest, updatedAt) =>
+						!latest || updatedAt > latest ? updatedAt : latest, previous?.updatedAfter);
+
+				// `updated_after` includes the issue at the cursor, so a note that failed is retried next time
+				const updatedAfter = latestUpdate ?? syncStartedAt;
+				syncState[result.syncKey] = {
+					updatedAfter: result.unwrittenSince && result.unwrittenSince < updatedAfter ? result.unwrittenSince : updatedAfter,
+					lastFullSync: result.fullSync || !previous ? syncStartedAt : previous.lastFullSync,
+					url: result.url,
+				};
+			});
+
+		this.settings.syncState = syncState;
+	}
+
+	/** Writes the notes of each output folder, and returns the results that were written. */
+	private async processIssuesData(results: Array<SourceResult>, report: SyncReport): Promise<Array<SourceResult>> {
+		// Sources sharing an output folder and template are written, and purged, together
+		const resultsByTarget = new Map<string, Array<SourceResult>>();
+		results.forEach((result) => {
+			const key = `${result.target.outputDir}|${result.target.templateFile}`;
+			resultsByTarget.set(key, [...(resultsByTarget.get(key) ?? []), result]);
+		});
+
+		// Folders may be shared or nested, a purge only removes the notes of its own sources
+		const targetGroups = Array.from(resultsByTarget.values());
+		const knownSources = [...results.map((result) => result.syncKey), MERGE_REQUEST_SOURCE];
+
+		const written: Array<SourceResult> = [];
+		for (const targetGroup of targetGroups) {
+			const targetResults = targetGroup.filter((result) => !result.failed);
+			if (targetResults.length === 0) {
+				continue;
+			}
+
+			const outputDir = targetGroup[0].target.outputDir;
+			const otherDirs = [
+				...targetGroups.filter((group) => group !== targetGroup).map((group) => group[0].target.outputDir),
+				this.settings.mergeRequestOutputDir,
+			];
+			const target: OutputTarget = {
+				...targetGroup[0].target,
+				syncSources: targetGroup.map((result) => result.syncKey),
+				knownSources,
+				otherDirs: getNestedDirs(outputDir, otherDirs),
+			};
+
+			// A folder that cannot be written, e.g. when loading discussions fails, does not stop the others
+			try {
+				const gitlabIssues = targetResults
+					.flatMap((result) => result.items)
+					.map((rawIssue: Issue) => new GitlabIssue(rawIssue, this.settings.filenameTemplate));
+
+				if (this.settings.importNotes && this.discussionLoader) {
+					await this.discussionLoader.attachNotes(gitlabIssues);
+				}
+				if (this.labelLoader) {
+					await this.labelLoader.attachLabelDetails(gitlabIssues);
+				}
+
+				// Only a complete, full result set tells us which issues are gone. A truncated or
+				// incremental one would purge every issue past the page limit or not changed recently,
+				// and a failed source would have its notes purged along with it.
+				const canPurge = targetGroup.every((result) => result.complete && result.fullSync);
+
+				const summary = await new Filesystem(this.app, this.settings, target)
+					.processIssues(gitlabIssues, this.settings.purgeIssues && canPurge);
+
+				const getKey = (issue: Issue) => getItemKey(this.settings, issue.connection, issue.web_url, issue.id);
+				targetResults.forEach((result, index) => addSourceReport(
+					report,
+					result.name,
+					result.items.map(getKey),
+					summary,
+					index === 0 ? summary.purged : 0
+				));
+				addWriteErrors(report, summary);
+				written.push(...targetGroup.map((result) => ({
+					...result,
+					unwrittenSince: result.items
+						.filter((issue) => !summary.outcomes.has(getKey(issue)))
+						.map((issue) => issue.updated_at)
+						.sort()[0],
+				})));
+			} catch (error) {
+				logger(`Could not write the issues of ${outputDir}: ${error.message}`);
+				targetResults.forEach((result) => addHttpError(report, result.name, error));
+			}
+		}
+
+		return written;
+	}
+
+	/**
+	 * Writes the note of a single issue changed from Obsidian, e.g. from an issue card. An existing
+	 * note is updated where it was synced to, a missing one is only created when `create` is set.
+	 */
+	async saveIssueNote(issue: Issue, create: boolean): Promise<TFile | null> {
+		const sources = this.getSources();
+		const targets = [getIssueTarget(this.settings), ...sources.map((source) => this.getTargetForSource(source))];
+		const existing = targets
+			.map((candidate) => ({ target: candidate, note: new Filesystem(this.app, this.settings, candidate).findNote(issue) }))
+			.find(({ note }) => note !== null);
+		const target = existing?.target ?? (create ? this.getTargetForIssue(issue, sources) : null);
+
+		if (!target) {
+			return null;
 		}
-		this.fs.processIssues(gitlabIssues);
+
+		// An issue changed from a card knows neither its connection nor its source, its note keeps those it was synced with
+		const frontmatter = existing?.note ? this.app.metadataCache.getFileCache(existing.note)?.frontmatter : undefined;
+		const gitlabIssue = new GitlabIssue({
+			...issue,
+			connection: issue.connection ?? frontmatter?.connection,
+			source: issue.source ?? frontmatter?.source,
+		}, this.settings.filenameTemplate);
+		if (this.settings.importNotes && this.discussionLoader) {
+			await this.discussionLoader.attachNotes([gitlabIssue]);
+		}
+		if (this.labelLoader) {
+			await this.labelLoader.attachLabelDetails([gitlabIssue]);
+		}
+		return new Filesystem(this.app, this.settings, target).saveOrUpdateNote(gitlabIssue);
+	}
+
+	/** The target of the first source whose project or group the issue belongs to. */
+	private getTargetForIssue(issue: Issue, sources: Array<GitlabSource>): OutputTarget {
+		const path = new URL(issue.web_url).pathname;
+		const source = sources.find((candidate) => candidate.type === "project"
+			? candidate.id === String(issue.project_id) || path.startsWith(`/${candidate.id}/-/`)
+			: candidate.type === "group" && path.startsWith(`/${candidate.id}/`));
+
+		return source ? this.getTargetForSource(source) : getIssueTarget(this.settings);
 	}
 
-	private async loadSingleSourceIssues() {
+	private async loadSingleSourceIssues(report: SyncReport) {
+		const name = describeSource(this.getSources()[0]);
 		try {
-			const issues = await GitlabApi.load<Array<Issue>>(
-				encodeURI(this.getUrl()),
-				this.settings.gitlabToken
+			const syncStartedAt = new Date().toISOString();
+			const result = await this.loadSource(
+				name,
+				this.getSyncKey(this.settings.gitlabIssuesLevel, this.settings.gitlabAppId, this.settings.connectionName),
+				this.getUrl(),
+				getIssueTarget(this.settings),
+				this.settings.connectionName
 			);
-			this.processIssuesData(issues);
+			this.updateSyncState(await this.processIssuesData([result], report), syncStartedAt);
 		} catch (error) {
 			logger(error.message);
+			addHttpError(report, name, error);
 		}
 	}
 
-	private async loadCustomIssues() {
+	/** Loads every source on its own, so a failing one, e.g. a deleted project, does not stop the others. */
+	private async loadCustomIssues(report: SyncReport) {
 		try {
-			const sources = this.parseCustomSources(this.settings.gitlabAppId);
-			const requests = sources.map((source) =>
-				GitlabApi.load<Array<Issue>>(
-					encodeURI(this.getUrlForSource(source.type, source.id)),
-					this.settings.gitlabToken
-				)
-			);
+			const syncStartedAt = new Date().toISOString();
+			const requests = this.settings.sources.map(async (source): Promise<SourceResult> => {
+				const name = describeSource(source);
+				const target = this.getTargetForSource(source);
+				const syncKey = this.getSyncKey(source.type, source.id, source.connection);
+
+				// Building the URL fails too when the connection of the source was removed
+				try {
+					return await this.loadSource(name, syncKey, this.getUrlForSource(source), target, source.connection);
+				} catch (error) {
+					logger(`Could not load ${name}: ${error.message}`);
+					addHttpError(report, name, error);
+					return { name, syncKey, url: "", target, items: [], complete: false, fullSync: false, failed: true };
+				}
+			});
 
-			const allIssuesArrays = await Promise.all(requests);
-			// Flatten all issues arrays into a single array
-			const allIssues = allIssuesArrays.flat();
-			this.processIssuesData(allIssues);
+			const results = await Promise.all(requests);
+			this.updateSyncState(await this.processIssuesData(results, report), syncStartedAt);
 		} catch (error) {
 			logger(error.message);
+			addHttpError(report, "Custom sources", error);
 		}
 	}
 }
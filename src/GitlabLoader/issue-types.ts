@@ -75,8 +75,55 @@ export interface Issue extends ShortIssue {
 		completed_count: number;
 	};
 	readonly milestone: ShortIssue;
+	/** Not part of the API: the name of the connection the issue was loaded through, when known. */
+	readonly connection?: string;
+	/** Not part of the API: the source the issue was synced for, which owns its note when purging. */
+	readonly source?: string;
+}
+
+export interface Note {
+	readonly id: number;
+	readonly body: string;
+	readonly author: Assignee;
+	readonly created_at: string;
+	readonly updated_at: string;
+	readonly system: boolean;
+	readonly resolvable: boolean;
+	readonly resolved?: boolean;
+}
+
+export interface Discussion {
+	readonly id: string;
+	readonly individual_note: boolean;
+	readonly notes: Note[];
+}
+
+/** A discussion as exposed to templates: its first note, with the rest of the thread as replies. */
+export interface IssueNote extends Note {
+	readonly replies: Note[];
+}
+
+export interface Project {
+	readonly id: number;
+	readonly name: string;
+	readonly name_with_namespace: string;
+	readonly path_with_namespace: string;
+	readonly web_url: string;
+	/** Not part of the API: the name of the connection the project was loaded through. */
+	readonly connection?: string;
+}
+
+export interface Label {
+	readonly name: string;
+	readonly color: string;
+	readonly text_color: string;
+	readonly description: string | null;
 }
 
 export interface ObsidianIssue extends Issue {
 	filename: string;
+	notes?: IssueNote[];
+	/** Set when the discussion could not be loaded and was never cached, so the note keeps the one it has. */
+	notesUnavailable?: boolean;
+	labelDetails?: Label[];
 }
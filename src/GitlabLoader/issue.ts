@@ -1,5 +1,5 @@
-import {sanitizeFileName} from '../utils/utils';
-import {Assignee, Epic, Issue, ObsidianIssue, References, ShortIssue, TimeStats} from "./issue-types";
+import {DEFAULT_FILENAME_TEMPLATE, renderFileName} from '../utils/utils';
+import {Assignee, Epic, Issue, IssueNote, ObsidianIssue, References, ShortIssue, TimeStats} from "./issue-types";
 
 export class GitlabIssue implements ObsidianIssue {
 
@@ -11,10 +11,10 @@ export class GitlabIssue implements ObsidianIssue {
 	references: string | References;
 
 	get filename() {
-		return sanitizeFileName(this.title);
+		return renderFileName(this.filenameTemplate, this);
 	}
 
-	constructor(issue: Issue) {
+	constructor(issue: Issue, private readonly filenameTemplate = DEFAULT_FILENAME_TEMPLATE) {
 		Object.assign(this, issue);
 	}
 
@@ -50,4 +50,8 @@ export class GitlabIssue implements ObsidianIssue {
 	updated_at: string;
 	upvotes: number;
 	user_notes_count: number;
+	notes?: IssueNote[];
+	notesUnavailable?: boolean;
+	connection?: string;
+	source?: string;
 }
@@ -0,0 +1,88 @@
+import { getSettingsForItem } from "./connections";
+import GitlabApi from "./gitlab-api";
+import { Label, ObsidianIssue } from "./issue-types";
+import { GitlabIssuesSettings } from "../SettingsTab/settings-types";
+import PersistentCache from "../utils/persistent-cache";
+import { logger } from "../utils/utils";
+
+export interface CachedLabels {
+	fetched_at: string;
+	labels: Label[];
+}
+
+const LABELS_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_LABEL_COLOR = "#6699cc";
+const DEFAULT_LABEL_TEXT_COLOR = "#FFFFFF";
+
+/** Label definitions of an issue, with a neutral color for labels that could not be looked up. */
+export function getLabelDetails(labelNames: Array<string>, definitions: Array<Label>): Array<Label> {
+	return labelNames.map((name) => definitions.find((label) => label.name === name) ?? {
+		name,
+		color: DEFAULT_LABEL_COLOR,
+		text_color: DEFAULT_LABEL_TEXT_COLOR,
+		description: null,
+	});
+}
+
+/**
+ * Loads the label definitions of projects, including those inherited from their groups, and keeps
+ * them for an hour in memory and in the plugin folder. Concurrent requests for a project share one call.
+ */
+export default class LabelLoader {
+	private pending = new Map<string, Promise<Array<Label>>>();
+
+	constructor(
+		private settings: GitlabIssuesSettings,
+		private cache: PersistentCache<CachedLabels>
+	) {}
+
+	/**
+	 * @param webUrl Any URL of the project's instance, used to pick its connection when `connection` is not known.
+	 * @param connection The name of the connection the project was loaded through.
+	 */
+	async loadLabels(projectId: number | string, webUrl: string, connection?: string | null): Promise<Array<Label>> {
+		const settings = getSettingsForItem(this.settings, connection, webUrl);
+		const key = `${settings.gitlabApiUrl()}/projects/${projectId}`;
+
+		await this.cache.load();
+		const cached = this.cache.get(key);
+		if (cached && Date.now() - new Date(cached.fetched_at).getTime() < LABELS_TTL_MS) {
+			return cached.labels;
+		}
+
+		let request = this.pending.get(key);
+		if (!request) {
+			request = this.fetchLabels(settings, key, projectId)
+				.catch((error) => {
+					logger(`Could not load labels of project ${projectId}: ${error.message}`);
+					return cached?.labels ?? [];
+				})
+				.then((labels) => {
+					this.pending.delete(key);
+					return labels;
+				});
+			this.pending.set(key, request);
+		}
+		return request;
+	}
+
+	/** Sets `labelDetails` on each issue, so templates can render labels with their colors. */
+	async attachLabelDetails(issues: Array<ObsidianIssue>) {
+		await Promise.all(issues.map(async (issue) => {
+			issue.labelDetails = getLabelDetails(issue.labels, await this.loadLabels(issue.project_id, issue.web_url, issue.connection));
+		}));
+	}
+
+	private async fetchLabels(settings: GitlabIssuesSettings, key: string, projectId: number | string): Promise<Array<Label>> {
+		const { items } = await GitlabApi.loadAll<Label>(
+			`${settings.gitlabApiUrl()}/projects/${projectId}/labels?include_ancestor_groups=true`,
+			settings.gitlabToken,
+			settings.maxPages
+		);
+		const labels = items.map(({ name, color, text_color, description }) => ({ name, color, text_color, description }));
+
+		this.cache.set(key, { fetched_at: new Date().toISOString(), labels });
+		await this.cache.save();
+		return labels;
+	}
+}
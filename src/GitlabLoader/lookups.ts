@@ -0,0 +1,29 @@
+import GitlabApi from "./gitlab-api";
+import { Assignee } from "./issue-types";
+import { GitlabIssuesSettings } from "../SettingsTab/settings-types";
+
+export async function findUserId(settings: GitlabIssuesSettings, username: string): Promise<number> {
+	const users = await GitlabApi.load<Array<{ id: number }>>(
+		`${settings.gitlabApiUrl()}/users?username=${encodeURIComponent(username)}`,
+		settings.gitlabToken
+	);
+	if (users.length === 0) {
+		throw new Error(`Unknown GitLab user: ${username}`);
+	}
+	return users[0].id;
+}
+
+export async function findMilestoneId(settings: GitlabIssuesSettings, projectId: string, title: string): Promise<number> {
+	const milestones = await GitlabApi.load<Array<{ id: number }>>(
+		`${settings.gitlabApiUrl()}/projects/${projectId}/milestones?include_ancestors=true&title=${encodeURIComponent(title)}`,
+		settings.gitlabToken
+	);
+	if (milestones.length === 0) {
+		throw new Error(`Unknown milestone: ${title}`);
+	}
+	return milestones[0].id;
+}
+
+export function loadCurrentUser(settings: GitlabIssuesSettings): Promise<Assignee> {
+	return GitlabApi.load<Assignee>(`${settings.gitlabApiUrl()}/user`, settings.gitlabToken);
+}
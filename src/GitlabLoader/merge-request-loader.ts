@@ -0,0 +1,149 @@
+import { App } from "obsidian";
+import { getConnection, getItemKey, withConnection } from "./connections";
+import GitlabApi from "./gitlab-api";
+import { Assignee, Issue } from "./issue-types";
+import { loadCurrentUser } from "./lookups";
+import { GitlabMergeRequest } from "./merge-request";
+import { Approvals, MergeRequest } from "./merge-request-types";
+import Filesystem, { getNestedDirs, OutputTarget, WriteSummary } from "../filesystem";
+import { GitlabIssuesSettings } from "../SettingsTab/settings-types";
+import { encodeQuery } from "../SettingsTab/filter-builder";
+import { DEFAULT_MERGE_REQUEST_TEMPLATE, logger } from "../utils/utils";
+
+const CONCURRENT_REQUESTS = 5;
+
+/** The merge request list endpoint of a source, without the API URL and query string, and the connection it is loaded through. */
+export interface MergeRequestList {
+	/** The name of the list in the sync report. */
+	name: string;
+	path: string;
+	connection: string;
+}
+
+/** What writing the merge requests did, and the lists that could not be loaded. */
+export interface MergeRequestSummary extends WriteSummary {
+	failedLists: Array<{ name: string; error: Error }>;
+}
+
+/** The `source` of merge request notes, telling them apart from issue notes when purging. */
+export const MERGE_REQUEST_SOURCE = "merge_requests";
+
+export function getMergeRequestTarget(settings: GitlabIssuesSettings): OutputTarget {
+	const issueDirs = [settings.outputDir, ...settings.sources.map((source) => source.outputDir)].filter((dir) => dir);
+	return {
+		outputDir: settings.mergeRequestOutputDir,
+		templateFile: settings.mergeRequestTemplateFile,
+		defaultTemplate: DEFAULT_MERGE_REQUEST_TEMPLATE,
+		itemName: "Merge request",
+		syncSources: [MERGE_REQUEST_SOURCE],
+		knownSources: [MERGE_REQUEST_SOURCE],
+		otherDirs: getNestedDirs(settings.mergeRequestOutputDir, issueDirs),
+	};
+}
+
+/**
+ * Loads the merge requests assigned to or waiting for a review from the current user, adds their
+ * pipeline status, approvals and the issues they close, and writes them to their own folder.
+ */
+export default class MergeRequestLoader {
+	private fs: Filesystem;
+
+	constructor(app: App, private settings: GitlabIssuesSettings) {
+		this.fs = new Filesystem(app, settings, getMergeRequestTarget(settings));
+	}
+
+	/**
+	 * @param lists The merge request lists of every configured source. One that fails, e.g. through a removed
+	 * connection, does not stop the others, but keeps the merge request notes from being purged.
+	 */
+	async loadMergeRequests(lists: Array<MergeRequestList>): Promise<MergeRequestSummary> {
+		const filter = this.settings.mergeRequestFilter;
+		// The current user differs per connection, so it is looked up once for each of them
+		const currentUsers = new Map<string, Promise<Assignee>>();
+		// Details are loaded through the connection that found the merge request
+		const settingsByConnection = new Map<string, GitlabIssuesSettings>();
+
+		const failedLists: Array<{ name: string; error: Error }> = [];
+
+		const requests = lists.map(async ({ name, path, connection }) => {
+			try {
+				const found = getConnection(this.settings, connection);
+				const settings = withConnection(this.settings, found);
+				settingsByConnection.set(found.name, settings);
+				let currentUser = currentUsers.get(found.name);
+				if (!currentUser) {
+					currentUser = loadCurrentUser(settings);
+					currentUsers.set(found.name, currentUser);
+				}
+				const { username } = await currentUser;
+
+				const results = await Promise.all([
+					`scope=assigned_to_me&${filter}`,
+					`scope=all&reviewer_username=${username}&${filter}`,
+				].map((query) => GitlabApi.loadAll<MergeRequest>(
+					// The path already has its project or group encoded
+					`${settings.gitlabApiUrl()}${path}?${encodeQuery(query)}`,
+					settings.gitlabToken,
+					this.settings.maxPages
+				)));
+				return results.map((result) => ({
+					...result,
+					items: result.items.map((mergeRequest): MergeRequest => ({ ...mergeRequest, connection: found.name })),
+				}));
+			} catch (error) {
+				logger(`Could not load ${name}: ${error.message}`);
+				failedLists.push({ name, error });
+				return [];
+			}
+		});
+
+		const results = (await Promise.all(requests)).flat();
+
+		// A merge request both assigned to and reviewed by the user is returned twice, ids of other instances may collide
+		const mergeRequests = new Map<string, GitlabMergeRequest>();
+		results
+			.flatMap((result) => result.items)
+			.forEach((mergeRequest) => mergeRequests.set(
+				getItemKey(this.settings, mergeRequest.connection, mergeRequest.web_url, mergeRequest.id),
+				new GitlabMergeRequest({ ...mergeRequest, source: MERGE_REQUEST_SOURCE }, this.settings.filenameTemplate)
+			));
+
+		const gitlabMergeRequests = Array.from(mergeRequests.values());
+		for (let i = 0; i < gitlabMergeRequests.length; i += CONCURRENT_REQUESTS) {
+			await Promise.all(
+				gitlabMergeRequests.slice(i, i + CONCURRENT_REQUESTS)
+					.map((mergeRequest) => this.addDetails(mergeRequest, settingsByConnection.get(mergeRequest.connection ?? "") ?? this.settings))
+			);
+		}
+
+		const summary = await this.fs.processIssues(
+			gitlabMergeRequests,
+			this.settings.purgeIssues && failedLists.length === 0 && results.every((result) => result.complete)
+		);
+		return { ...summary, failedLists };
+	}
+
+	private async addDetails(mergeRequest: GitlabMergeRequest, settings: GitlabIssuesSettings) {
+		const mergeRequestUrl = `${settings.gitlabApiUrl()}/projects/${mergeRequest.project_id}/merge_requests/${mergeRequest.iid}`;
+
+		try {
+			// The list endpoint leaves out the pipeline, so the single merge request is needed too
+			const [details, approvals, linkedIssues] = await Promise.all([
+				GitlabApi.load<MergeRequest>(mergeRequestUrl, settings.gitlabToken),
+				GitlabApi.load<Approvals>(`${mergeRequestUrl}/approvals`, settings.gitlabToken),
+				GitlabApi.load<Array<Issue>>(`${mergeRequestUrl}/closes_issues`, settings.gitlabToken),
+			]);
+
+			mergeRequest.head_pipeline = details.head_pipeline ?? null;
+			mergeRequest.approvals = {
+				approved: approvals.approved,
+				approvals_required: approvals.approvals_required,
+				approvals_left: approvals.approvals_left,
+				approved_by: approvals.approved_by.map((approval) => approval.user),
+			};
+			mergeRequest.linked_issues = linkedIssues;
+		} catch (error) {
+			logger(`Could not load details of merge request ${mergeRequest.iid}: ${error.message}`);
+		}
+	}
+}
@@ -0,0 +1,57 @@
+import { Assignee, Issue, References, ShortIssue } from "./issue-types";
+
+export interface Pipeline {
+	readonly id: number;
+	readonly status: string;
+	readonly web_url: string;
+}
+
+export interface MergeRequest {
+	readonly id: number;
+	readonly iid: number;
+	readonly project_id: number;
+	readonly title: string;
+	readonly description: string;
+	readonly state: string;
+	readonly draft: boolean;
+	readonly created_at: string;
+	readonly updated_at: string;
+	readonly merged_at: string | null;
+	readonly web_url: string;
+	readonly references: string | References;
+	readonly source_branch: string;
+	readonly target_branch: string;
+	readonly author: Assignee;
+	readonly assignees: Assignee[];
+	readonly reviewers: Assignee[];
+	readonly labels: string[];
+	readonly milestone: ShortIssue;
+	readonly detailed_merge_status: string;
+	readonly user_notes_count: number;
+	readonly head_pipeline?: Pipeline | null;
+	/** Not part of the API: the name of the connection the merge request was loaded through. */
+	readonly connection?: string;
+	/** Not part of the API: always `merge_requests`, which owns the note when purging. */
+	readonly source?: string;
+}
+
+export interface Approvals {
+	readonly approved: boolean;
+	readonly approvals_required: number;
+	readonly approvals_left: number;
+	readonly approved_by: Array<{ user: Assignee }>;
+}
+
+/** Approval state as exposed to templates, with the approvers flattened to users. */
+export interface MergeRequestApprovals {
+	readonly approved: boolean;
+	readonly approvals_required: number;
+	readonly approvals_left: number;
+	readonly approved_by: Assignee[];
+}
+
+export interface ObsidianMergeRequest extends MergeRequest {
+	filename: string;
+	approvals?: MergeRequestApprovals;
+	linked_issues?: Issue[];
+}
@@ -0,0 +1,42 @@
+import {DEFAULT_FILENAME_TEMPLATE, renderFileName} from '../utils/utils';
+import {Assignee, Issue, References, ShortIssue} from "./issue-types";
+import {MergeRequest, MergeRequestApprovals, ObsidianMergeRequest, Pipeline} from "./merge-request-types";
+
+export class GitlabMergeRequest implements ObsidianMergeRequest {
+
+	id: number;
+	title: string;
+	description: string;
+	web_url: string;
+	references: string | References;
+
+	get filename() {
+		return renderFileName(this.filenameTemplate, this);
+	}
+
+	constructor(mergeRequest: MergeRequest, private readonly filenameTemplate = DEFAULT_FILENAME_TEMPLATE) {
+		Object.assign(this, mergeRequest);
+	}
+
+	approvals?: MergeRequestApprovals;
+	assignees: Assignee[];
+	author: Assignee;
+	created_at: string;
+	detailed_merge_status: string;
+	draft: boolean;
+	head_pipeline?: Pipeline | null;
+	connection?: string;
+	source?: string;
+	iid: number;
+	labels: string[];
+	linked_issues?: Issue[];
+	merged_at: string | null;
+	milestone: ShortIssue;
+	project_id: number;
+	reviewers: Assignee[];
+	source_branch: string;
+	state: string;
+	target_branch: string;
+	updated_at: string;
+	user_notes_count: number;
+}
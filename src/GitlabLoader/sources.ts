@@ -0,0 +1,68 @@
+import { getConnection, withConnection } from "./connections";
+import GitlabApi from "./gitlab-api";
+import { Project } from "./issue-types";
+import { GitlabIssuesSettings, GitlabSource } from "../SettingsTab/settings-types";
+import { logger } from "../utils/utils";
+
+interface Group {
+	readonly id: number;
+	readonly full_name: string;
+}
+
+export function createSource(type: GitlabSource["type"] = "project", id = ""): GitlabSource {
+	return { type, id, name: "", connection: "", filter: "", outputDir: "", templateFile: "" };
+}
+
+/**
+ * Parses the former comma separated custom scope, e.g. `G:111, P:234@Work`, into sources.
+ * Entries without a `G:` or `P:` prefix are skipped rather than failing the whole list.
+ */
+export function parseCustomSources(customString: string): Array<GitlabSource> {
+	return customString
+		.split(",")
+		.map((entry) => entry.trim())
+		.filter((entry) => entry.length > 0)
+		.flatMap((entry) => {
+			const [reference, connection = ""] = entry.split("@");
+			const [typePrefix, id = ""] = reference.split(":");
+			const type = typePrefix.trim().toUpperCase();
+
+			if ((type !== "G" && type !== "P") || !id.trim()) {
+				logger(`Skipping invalid custom source "${entry}". Use G: for groups and P: for projects.`);
+				return [];
+			}
+			return [{
+				...createSource(type === "G" ? "group" : "project", id.trim()),
+				connection: connection.trim(),
+			}];
+		});
+}
+
+/** Moves a custom scope still stored as a `G:111, P:234` string into the structured source list. */
+export function migrateCustomSources(settings: GitlabIssuesSettings) {
+	if (settings.sources.length === 0 && settings.gitlabIssuesLevel === "custom" && settings.gitlabAppId.trim()) {
+		settings.sources = parseCustomSources(settings.gitlabAppId);
+	}
+}
+
+/**
+ * Looks up a project or group by its path or numeric id and returns its full name, so that typos
+ * are caught while the source is configured. Personal sources resolve to the current user.
+ */
+export async function resolveSourceName(settings: GitlabIssuesSettings, source: GitlabSource): Promise<string> {
+	const connectionSettings = withConnection(settings, getConnection(settings, source.connection));
+	const baseUrl = connectionSettings.gitlabApiUrl();
+	const token = connectionSettings.gitlabToken;
+
+	switch (source.type) {
+		case "project":
+			return (await GitlabApi.load<Project>(`${baseUrl}/projects/${encodeURIComponent(source.id)}`, token))
+				.name_with_namespace;
+		case "group":
+			return (await GitlabApi.load<Group>(`${baseUrl}/groups/${encodeURIComponent(source.id)}`, token))
+				.full_name;
+		case "personal":
+		default:
+			return (await GitlabApi.load<{ name: string }>(`${baseUrl}/user`, token)).name;
+	}
+}
@@ -0,0 +1,107 @@
+import { NoteOutcome, WriteSummary } from "../filesystem";
+import { GitlabSource } from "../SettingsTab/settings-types";
+import { DEFAULT_CONNECTION_NAME } from "./connections";
+import { GitlabApiError } from "./gitlab-errors";
+
+export type SyncErrorKind = "http" | "template" | "note";
+
+export interface SyncError {
+	kind: SyncErrorKind;
+	/** The source, or the note of an item, the error happened for. */
+	source: string;
+	/** The HTTP status GitLab answered with, null when there was no answer or for other errors. */
+	status: number | null;
+	message: string;
+}
+
+export interface SourceReport {
+	source: string;
+	fetched: number;
+	created: number;
+	updated: number;
+	unchanged: number;
+	/** Sources sharing an output folder are purged together, the count is on the first of them. */
+	purged: number;
+}
+
+/** What a sync did, kept so it can be looked at after the notice is gone. */
+export interface SyncReport {
+	startedAt: string;
+	finishedAt: string;
+	sources: Array<SourceReport>;
+	errors: Array<SyncError>;
+}
+
+export function createSyncReport(): SyncReport {
+	const now = new Date().toISOString();
+	return { startedAt: now, finishedAt: now, sources: [], errors: [] };
+}
+
+/** A name for a source that can be told apart from the others in a report. */
+export function describeSource(source: GitlabSource): string {
+	const name = source.type === "personal" ? "Your issues" : `${source.type === "project" ? "Project" : "Group"} ${source.name || source.id}`;
+	return source.connection && source.connection !== DEFAULT_CONNECTION_NAME ? `${name} (${source.connection})` : name;
+}
+
+export function getHttpStatus(error: unknown): number | null {
+	return error instanceof GitlabApiError ? error.status : null;
+}
+
+export function addHttpError(report: SyncReport, source: string, error: Error) {
+	report.errors.push({ kind: "http", source, status: getHttpStatus(error), message: error.message });
+}
+
+/** Adds the counts of the items of one source, by item key, out of the summary of writing the notes of their output folder. */
+export function addSourceReport(report: SyncReport, source: string, itemKeys: Array<string>, summary: WriteSummary, purged: number) {
+	const count = (outcome: NoteOutcome) => itemKeys.filter((key) => summary.outcomes.get(key) === outcome).length;
+
+	report.sources.push({
+		source,
+		fetched: itemKeys.length,
+		created: count("created"),
+		updated: count("updated"),
+		unchanged: count("unchanged"),
+		purged,
+	});
+}
+
+/** Adds the template and note errors of writing notes, once per output folder. */
+export function addWriteErrors(report: SyncReport, summary: WriteSummary) {
+	if (summary.templateError) {
+		report.errors.push({ kind: "template", source: summary.templateFile, status: null, message: summary.templateError });
+	}
+	summary.errors.forEach((error) => report.errors.push({ ...error, status: null }));
+}
+
+export function getTotals(report: SyncReport): Omit<SourceReport, "source"> {
+	return report.sources.reduce((totals, source) => ({
+		fetched: totals.fetched + source.fetched,
+		created: totals.created + source.created,
+		updated: totals.updated + source.updated,
+		unchanged: totals.unchanged + source.unchanged,
+		purged: totals.purged + source.purged,
+	}), { fetched: 0, created: 0, updated: 0, unchanged: 0, purged: 0 });
+}
+
+/** Whether the sync changed any note or ran into errors, i.e. whether it is worth a notice. */
+export function isNoteworthy(report: SyncReport): boolean {
+	const totals = getTotals(report);
+	return report.errors.length > 0 || totals.created + totals.updated + totals.purged > 0;
+}
+
+/** A one-line summary, e.g. "2 created, 5 updated, 40 unchanged, 1 purged, 1 error". */
+export function summarizeReport(report: SyncReport): string {
+	const totals = getTotals(report);
+	const parts = [
+		`${totals.created} created`,
+		`${totals.updated} updated`,
+		`${totals.unchanged} unchanged`,
+		...(totals.purged > 0 ? [`${totals.purged} purged`] : []),
+		...(report.errors.length > 0 ? [`${report.errors.length} ${report.errors.length === 1 ? "error" : "errors"}`] : []),
+	];
+	return parts.join(", ");
+}
+
+export function formatSyncError(error: SyncError): string {
+	return `${error.source}: ${error.status !== null ? `HTTP ${error.status} ` : ""}${error.message}`;
+}
@@ -0,0 +1,100 @@
+import GitlabApi from "../GitlabLoader/gitlab-api";
+import { ForbiddenError, NotFoundError } from "../GitlabLoader/gitlab-errors";
+import { GitlabIssuesSettings } from "../SettingsTab/settings-types";
+import PersistentCache from "../utils/persistent-cache";
+import { logger } from "../utils/utils";
+
+export interface CachedResponse {
+	fetched_at: string;
+	value: unknown;
+}
+
+export interface CardData<T> {
+	value: T;
+	fetchedAt: string;
+	/** True when the value is older than the cache duration, e.g. while offline. */
+	stale: boolean;
+}
+
+const SAVE_DELAY_MS = 2000;
+
+/**
+ * Caches the API responses embedded cards are rendered from, in memory and in the plugin folder,
+ * keyed by their API URL. Fresh entries are served as they are; stale ones are served at once and
+ * refreshed in the background, so cards render immediately and still work offline. Concurrent
+ * renders of the same URL share one request.
+ */
+export default class CardCache {
+	private pending = new Map<string, Promise<CardData<unknown>>>();
+	private saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+	constructor(
+		private settings: GitlabIssuesSettings,
+		private cache: PersistentCache<CachedResponse>
+	) {}
+
+	/** @param onRevalidate Called with the refreshed value when a stale entry was served. */
+	async load<T>(url: string, token: string, onRevalidate?: (data: CardData<T>) => void): Promise<CardData<T>> {
+		await this.cache.load();
+		const cached = this.cache.get(url);
+
+		if (!cached) {
+			return this.fetch<T>(url, token);
+		}
+
+		const data = { value: cached.value as T, fetchedAt: cached.fetched_at, stale: this.isStale(cached) };
+		if (data.stale) {
+			this.fetch<T>(url, token)
+				.then((fresh) => onRevalidate?.(fresh))
+				.catch((error) => {
+					// Deleted, or no longer visible: the cached card is served this once, but not again
+					if (error instanceof NotFoundError || error instanceof ForbiddenError) {
+						this.cache.delete(url);
+						this.scheduleSave();
+					}
+					logger(`Could not refresh ${url}, showing the cached card: ${error.message}`);
+				});
+		}
+		return data;
+	}
+
+	/** Replaces a cached response with one GitLab returned after a change, e.g. from a card action. */
+	store(url: string, value: unknown) {
+		this.cache.set(url, { fetched_at: new Date().toISOString(), value });
+		this.scheduleSave();
+	}
+
+	private isStale(cached: CachedResponse): boolean {
+		const ttlMs = this.settings.cardCacheMinutes * 60 * 1000;
+		return Date.now() - new Date(cached.fetched_at).getTime() >= ttlMs;
+	}
+
+	private fetch<T>(url: string, token: string): Promise<CardData<T>> {
+		let request = this.pending.get(url);
+
+		if (!request) {
+			request = GitlabApi.load<T>(url, token)
+				.then((value) => {
+					const fetchedAt = new Date().toISOString();
+					this.cache.set(url, { fetched_at: fetchedAt, value });
+					this.scheduleSave();
+					return { value, fetchedAt, stale: false };
+				});
+			this.pending.set(url, request);
+			const clearPending = () => this.pending.delete(url);
+			request.then(clearPending, clearPending);
+		}
+
+		return request as Promise<CardData<T>>;
+	}
+
+	/** Writes the cache once a burst of renders is done, rather than once per card. */
+	private scheduleSave() {
+		if (this.saveTimeout === null) {
+			this.saveTimeout = setTimeout(() => {
+				this.saveTimeout = null;
+				this.cache.save();
+			}, SAVE_DELAY_MS);
+		}
+	}
+}
@@ -0,0 +1,39 @@
+import { Assignee, Label, References } from "../GitlabLoader/issue-types";
+
+/** An epic as returned with `with_labels_details=true`. */
+export interface GroupEpic {
+	readonly id: number;
+	readonly iid: number;
+	readonly group_id: number;
+	readonly title: string;
+	readonly description: string;
+	readonly state: string;
+	readonly web_url: string;
+	readonly references: string | References;
+	readonly author: Assignee;
+	readonly start_date: string | null;
+	readonly due_date: string | null;
+	readonly labels: Label[];
+}
+
+export interface Milestone {
+	readonly id: number;
+	readonly iid: number;
+	readonly title: string;
+	readonly description: string;
+	readonly state: string;
+	readonly start_date: string | null;
+	readonly due_date: string | null;
+	readonly expired: boolean;
+	readonly web_url: string;
+}
+
+export interface IssuesStatistics {
+	readonly statistics: {
+		readonly counts: {
+			readonly all: number;
+			readonly closed: number;
+			readonly opened: number;
+		};
+	};
+}
@@ -1,19 +1,47 @@
 import { MarkdownPostProcessorContext } from "obsidian";
-import GitlabApi from "../GitlabLoader/gitlab-api";
-import { Issue } from "../GitlabLoader/issue-types";
+import {
+	findConnectionForUrl,
+	getConnection,
+	getConnections,
+	getSettingsForUrl,
+	withConnection
+} from "../GitlabLoader/connections";
+import { Issue, Label } from "../GitlabLoader/issue-types";
+import LabelLoader, { getLabelDetails } from "../GitlabLoader/label-loader";
+import { Approvals, MergeRequest } from "../GitlabLoader/merge-request-types";
 import { GitlabIssuesSettings } from "../SettingsTab/settings-types";
 import { logger } from "../utils/utils";
+import { createLabelChip } from "./label-chips";
+import CardCache, { CardData } from "./card-cache";
+import { GroupEpic, IssuesStatistics, Milestone } from "./card-types";
+import { GitlabLink, parseGitlabUrl } from "./gitlab-url";
+import IssueActions, { IssueUpdated } from "./issue-actions";
+import { findShortReferences, ShortReference } from "./short-references";
+
+interface Card {
+	content: HTMLElement;
+	/** When the oldest response the card was rendered from was fetched. */
+	fetchedAt: string;
+	stale: boolean;
+}
+
+type Refresh = () => void;
 
 export class GitlabIssuePostProcessor {
 	private settings: GitlabIssuesSettings;
 
-	constructor(settings: GitlabIssuesSettings) {
+	constructor(
+		settings: GitlabIssuesSettings,
+		private cardCache: CardCache,
+		private labelLoader: LabelLoader,
+		private issueActions: IssueActions
+	) {
 		this.settings = settings;
 	}
 
 	processElement(element: HTMLElement, context: MarkdownPostProcessorContext) {
 		// Only process if we have a GitLab token configured
-		if (!this.settings.gitlabToken) {
+		if (!this.hasToken()) {
 			return;
 		}
 
@@ -22,113 +50,280 @@ export class GitlabIssuePostProcessor {
 		
 		for (const link of links) {
 			const href = link.getAttribute('href');
-			if (href && this.isGitlabIssueUrl(href)) {
+			const gitlabLink = href && findConnectionForUrl(this.settings, href) ? parseGitlabUrl(href) : null;
+			if (href && gitlabLink) {
 				// Process the link asynchronously
-				this.processGitlabLink(link as HTMLAnchorElement, href);
+				this.processGitlabLink(link as HTMLAnchorElement, href, gitlabLink);
 			}
 		}
+
+		this.processShortReferences(element);
 	}
 
-	private async processGitlabLink(linkElement: HTMLAnchorElement, href: string) {
-		try {
-			// Add loading indicator
-			const originalText = linkElement.textContent;
-			linkElement.textContent = `${originalText} (loading...)`;
-			linkElement.style.opacity = '0.6';
-
-			const issueInfo = this.parseGitlabIssueUrl(href);
-			if (issueInfo) {
-				const issue = await this.fetchGitlabIssue(issueInfo.projectId, issueInfo.issueIid);
-				if (issue) {
-					this.renderIssueCard(linkElement, issue);
-				} else {
-					// Reset link if fetch failed
-					linkElement.textContent = originalText;
-					linkElement.style.opacity = '1';
-				}
+	/** Finds short issue references such as `#42` or `group/app#42` in a piece of text. */
+	findShortReferences(text: string): Array<ShortReference> {
+		return this.hasToken() ? findShortReferences(text, this.settings.defaultProject) : [];
+	}
+
+	/**
+	 * Renders a short reference as a pill colored by the issue state, with its title as tooltip.
+	 * Clicking the pill expands the full issue card below it.
+	 */
+	createIssuePill(reference: ShortReference): HTMLElement {
+		const wrapper = document.createElement('span');
+		wrapper.className = 'gitlab-issue-reference';
+
+		const pill = document.createElement('span');
+		pill.className = 'gitlab-issue-pill';
+		pill.textContent = reference.text;
+		wrapper.appendChild(pill);
+
+		const settings = this.getReferenceSettings();
+		const url = `${settings.gitlabApiUrl()}/projects/${encodeURIComponent(reference.projectPath)}/issues/${reference.iid}`;
+		const showIssue = (issue: Issue) => {
+			pill.className = `gitlab-issue-pill ${issue.state}`;
+			pill.title = `${issue.title} (${issue.state})`;
+			pill.onclick = (event) => {
+				event.preventDefault();
+				this.toggleReferenceCard(wrapper, issue, onUpdate)
+					.catch((error) => logger(`Error expanding GitLab reference ${reference.text}: ${error}`));
+			};
+		};
+		const onUpdate = (issue: Issue) => {
+			this.cardCache.store(url, issue);
+			showIssue(issue);
+			// Collapse and expand again to render the card of the changed issue
+			wrapper.querySelector('.gitlab-issue-card')?.remove();
+			this.toggleReferenceCard(wrapper, issue, onUpdate)
+				.catch((error) => logger(`Error expanding GitLab reference ${reference.text}: ${error}`));
+		};
+
+		this.cardCache.load<Issue>(url, settings.gitlabToken, (data) => showIssue(data.value))
+			.then((data) => showIssue(data.value))
+			.catch((error) => {
+				// Left as plain text, it may not have been meant as an issue reference at all
+				logger(`Could not resolve GitLab reference ${reference.text}: ${error}`);
+				pill.className = 'gitlab-issue-pill unresolved';
+			});
+
+		return wrapper;
+	}
+
+	private processShortReferences(element: HTMLElement) {
+		const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+		const textNodes: Array<Text> = [];
+
+		while (walker.nextNode()) {
+			const node = walker.currentNode as Text;
+			if (!node.parentElement?.closest('a, code, pre, .gitlab-issue-reference, .gitlab-issue-card, .gitlab-query')) {
+				textNodes.push(node);
 			}
-		} catch (error) {
-			logger(`Error processing GitLab issue link: ${error}`);
-			// Reset link on error
-			const originalText = linkElement.textContent?.replace(' (loading...)', '') || href;
-			linkElement.textContent = originalText;
-			linkElement.style.opacity = '1';
 		}
+
+		textNodes.forEach((node) => {
+			const text = node.textContent ?? '';
+			const references = this.findShortReferences(text);
+			if (references.length === 0) {
+				return;
+			}
+
+			const fragment = document.createDocumentFragment();
+			let position = 0;
+			references.forEach((reference) => {
+				fragment.appendChild(document.createTextNode(text.slice(position, reference.from)));
+				fragment.appendChild(this.createIssuePill(reference));
+				position = reference.to;
+			});
+			fragment.appendChild(document.createTextNode(text.slice(position)));
+			node.replaceWith(fragment);
+		});
 	}
 
-	private isGitlabIssueUrl(url: string): boolean {
-		try {
-			const urlObj = new URL(url);
-			// Check if it's a GitLab URL and has the issue pattern
-			const gitlabHost = new URL(this.settings.gitlabUrl).host;
-			return urlObj.host === gitlabHost && 
-				   /\/.*\/-\/issues\/\d+/.test(urlObj.pathname);
-		} catch (error) {
-			return false;
+	private async toggleReferenceCard(wrapper: HTMLElement, issue: Issue, onUpdate: IssueUpdated) {
+		const expanded = wrapper.querySelector('.gitlab-issue-card');
+		if (expanded) {
+			expanded.remove();
+			return;
 		}
+
+		const labels = getLabelDetails(issue.labels, await this.labelLoader.loadLabels(issue.project_id, issue.web_url));
+		const card = document.createElement('div');
+		card.className = 'gitlab-issue-card';
+		card.appendChild(this.createIssueCardContent(issue, labels, onUpdate));
+		wrapper.appendChild(card);
 	}
 
-	private parseGitlabIssueUrl(url: string): { projectId: string, issueIid: number } | null {
+	private hasToken(): boolean {
+		return getConnections(this.settings).some((connection) => connection.token);
+	}
+
+	/** References resolve on the connection the issues are loaded from. */
+	private getReferenceSettings(): GitlabIssuesSettings {
 		try {
-			const urlObj = new URL(url);
-			// Extract project path and issue IID from URL
-			// Format: https://gitlab.com/group/project/-/issues/123
-			const pathMatch = urlObj.pathname.match(/^\/(.+)\/-\/issues\/(\d+)/);
-			if (pathMatch) {
-				const projectPath = pathMatch[1];
-				const issueIid = parseInt(pathMatch[2]);
-				// Encode the project path for the API
-				const projectId = encodeURIComponent(projectPath);
-				return { projectId, issueIid };
-			}
+			return withConnection(this.settings, getConnection(this.settings, this.settings.connectionName));
 		} catch (error) {
-			logger(`Error parsing GitLab URL: ${error}`);
+			return this.settings;
 		}
-		return null;
 	}
 
-	private async fetchGitlabIssue(projectId: string, issueIid: number): Promise<Issue | null> {
+	private async processGitlabLink(linkElement: HTMLAnchorElement, href: string, gitlabLink: GitlabLink) {
+		// Add loading indicator
+		const originalText = linkElement.textContent;
+		linkElement.textContent = `${originalText} (loading...)`;
+		linkElement.style.opacity = '0.6';
+
 		try {
-			const apiUrl = `${this.settings.gitlabApiUrl()}/projects/${projectId}/issues/${issueIid}`;
-			const issue = await GitlabApi.load<Issue>(apiUrl, this.settings.gitlabToken);
-			return issue;
+			const cardContainer = document.createElement('div');
+			cardContainer.className = `gitlab-issue-card gitlab-${gitlabLink.kind.replace('_', '-')}-card`;
+
+			await this.renderCard(cardContainer, gitlabLink, href, true);
+			// Replace the link with the card
+			linkElement.parentNode?.replaceChild(cardContainer, linkElement);
 		} catch (error) {
-			logger(`Error fetching GitLab issue: ${error}`);
-			return null;
+			logger(`Error processing GitLab link ${href}: ${error}`);
+			// Reset link on error
+			linkElement.textContent = originalText;
+			linkElement.style.opacity = '1';
 		}
 	}
 
-	private renderIssueCard(linkElement: HTMLAnchorElement, issue: Issue) {
-		// Create a container for the issue card
-		const cardContainer = document.createElement('div');
-		cardContainer.className = 'gitlab-issue-card';
+	/**
+	 * Renders the card content. When it was rendered from stale cached responses, it is rendered
+	 * once more as soon as they were refreshed in the background.
+	 */
+	private async renderCard(cardContainer: HTMLElement, gitlabLink: GitlabLink, href: string, revalidate: boolean) {
+		const settings = getSettingsForUrl(this.settings, href);
+		const rerender = () => {
+			this.renderCard(cardContainer, gitlabLink, href, false)
+				.catch((error) => logger(`Error refreshing GitLab card ${href}: ${error}`));
+		};
 
-		// Create the issue card content
-		const cardContent = this.createIssueCardContent(issue);
-		cardContainer.appendChild(cardContent);
+		this.fillCard(cardContainer, await this.loadCard(gitlabLink, settings, rerender, revalidate ? rerender : undefined));
+	}
 
-		// Replace the link with the card
-		linkElement.parentNode?.replaceChild(cardContainer, linkElement);
+	/** @param rerender Renders the card again from the cache, e.g. after an action changed the issue. */
+	private loadCard(gitlabLink: GitlabLink, settings: GitlabIssuesSettings, rerender: Refresh, refresh?: Refresh): Promise<Card> {
+		switch (gitlabLink.kind) {
+			case 'merge_request':
+				return this.loadMergeRequestCard(gitlabLink, settings, refresh);
+			case 'epic':
+				return this.loadEpicCard(gitlabLink, settings, refresh);
+			case 'milestone':
+				return this.loadMilestoneCard(gitlabLink, settings, refresh);
+			case 'work_item':
+			case 'issue':
+			default:
+				// Project work items (issues, tasks, incidents) share their iids with issues
+				return this.loadIssueCard(gitlabLink, settings, rerender, refresh);
+		}
 	}
 
-	private createIssueCardContent(issue: Issue): HTMLElement {
-		const content = document.createElement('div');
-		
-		// Issue header with title and state
-		const header = document.createElement('div');
-		header.className = 'issue-header';
+	private fillCard(cardContainer: HTMLElement, card: Card) {
+		// A refresh may finish before the cached version was rendered, never go back to older data
+		if (cardContainer.dataset.fetchedAt && cardContainer.dataset.fetchedAt > card.fetchedAt) {
+			return;
+		}
+		cardContainer.dataset.fetchedAt = card.fetchedAt;
 
-		const stateLabel = document.createElement('span');
-		stateLabel.textContent = issue.state.toUpperCase();
-		stateLabel.className = `issue-state ${issue.state}`;
+		cardContainer.empty();
+		cardContainer.appendChild(card.content);
 
-		const titleLink = document.createElement('a');
-		titleLink.href = issue.web_url;
-		titleLink.textContent = issue.title;
-		titleLink.className = 'issue-title';
+		if (card.stale) {
+			const marker = document.createElement('div');
+			marker.className = 'issue-cache-marker';
+			marker.textContent = `Cached copy, updated ${this.formatAge(card.fetchedAt)}`;
+			cardContainer.appendChild(marker);
+		}
+	}
 
-		header.appendChild(stateLabel);
-		header.appendChild(titleLink);
+	private async loadIssueCard(
+		gitlabLink: GitlabLink,
+		settings: GitlabIssuesSettings,
+		rerender: Refresh,
+		refresh?: Refresh
+	): Promise<Card> {
+		const url = `${this.namespaceUrl(gitlabLink, settings)}/issues/${gitlabLink.iid}`;
+		const data = await this.load<Issue>(url, settings, refresh);
+		const issue = data.value;
+		const labels = getLabelDetails(issue.labels, await this.labelLoader.loadLabels(issue.project_id, issue.web_url));
+		const onUpdate = (updatedIssue: Issue) => {
+			this.cardCache.store(url, updatedIssue);
+			rerender();
+		};
+
+		return this.toCard(this.createIssueCardContent(issue, labels, onUpdate), [data]);
+	}
+
+	private async loadMergeRequestCard(gitlabLink: GitlabLink, settings: GitlabIssuesSettings, refresh?: Refresh): Promise<Card> {
+		const url = `${this.namespaceUrl(gitlabLink, settings)}/merge_requests/${gitlabLink.iid}`;
+		const [data, approvals] = await Promise.all([
+			this.load<MergeRequest>(url, settings, refresh),
+			this.loadOptional<Approvals>(`${url}/approvals`, settings, refresh),
+		]);
+		const mergeRequest = data.value;
+		const labels = getLabelDetails(mergeRequest.labels,
+			await this.labelLoader.loadLabels(mergeRequest.project_id, mergeRequest.web_url));
+
+		return this.toCard(
+			this.createMergeRequestCardContent(mergeRequest, approvals?.value ?? null, labels),
+			[data, approvals]
+		);
+	}
+
+	private async loadEpicCard(gitlabLink: GitlabLink, settings: GitlabIssuesSettings, refresh?: Refresh): Promise<Card> {
+		const url = `${this.namespaceUrl(gitlabLink, settings)}/epics/${gitlabLink.iid}`;
+		const [data, children] = await Promise.all([
+			this.load<GroupEpic>(`${url}?with_labels_details=true`, settings, refresh),
+			// A single page, so the progress of very large epics only covers their first hundred issues
+			this.loadOptional<Issue[]>(`${url}/issues?per_page=100`, settings, refresh),
+		]);
+
+		return this.toCard(this.createEpicCardContent(data.value, children?.value ?? null), [data, children]);
+	}
+
+	private async loadMilestoneCard(gitlabLink: GitlabLink, settings: GitlabIssuesSettings, refresh?: Refresh): Promise<Card> {
+		const namespaceUrl = this.namespaceUrl(gitlabLink, settings);
+		const data = await this.load<Milestone[]>(`${namespaceUrl}/milestones?iids[]=${gitlabLink.iid}`, settings, refresh);
+		const milestone = data.value[0];
+		if (!milestone) {
+			throw new Error(`Milestone ${gitlabLink.iid} not found in ${gitlabLink.namespace}`);
+		}
+
+		const statistics = await this.loadOptional<IssuesStatistics>(
+			`${namespaceUrl}/issues_statistics?milestone=${encodeURIComponent(milestone.title)}`, settings, refresh);
+
+		return this.toCard(this.createMilestoneCardContent(milestone, statistics?.value ?? null), [data, statistics]);
+	}
+
+	private namespaceUrl(gitlabLink: GitlabLink, settings: GitlabIssuesSettings): string {
+		const collection = gitlabLink.group ? 'groups' : 'projects';
+		return `${settings.gitlabApiUrl()}/${collection}/${encodeURIComponent(gitlabLink.namespace)}`;
+	}
+
+	private load<T>(url: string, settings: GitlabIssuesSettings, refresh?: Refresh): Promise<CardData<T>> {
+		return this.cardCache.load<T>(url, settings.gitlabToken, refresh);
+	}
+
+	/** Loads details a card can do without, such as approvals, which not every GitLab edition offers. */
+	private loadOptional<T>(url: string, settings: GitlabIssuesSettings, refresh?: Refresh): Promise<CardData<T> | null> {
+		return this.load<T>(url, settings, refresh).catch((error) => {
+			logger(`Could not load ${url} for a GitLab card: ${error}`);
+			return null;
+		});
+	}
+
+	private toCard(content: HTMLElement, responses: Array<CardData<unknown> | null>): Card {
+		const loaded = responses.filter((response): response is CardData<unknown> => response !== null);
+		return {
+			content,
+			fetchedAt: loaded.map((response) => response.fetchedAt).sort()[0],
+			stale: loaded.some((response) => response.stale),
+		};
+	}
+
+	/** @param onUpdate Adds the action bar, and is called with the issue once an action changed it. */
+	createIssueCardContent(issue: Issue, labels: Array<Label>, onUpdate?: IssueUpdated): HTMLElement {
+		const content = document.createElement('div');
 
 		// Issue metadata
 		const metadata = document.createElement('div');
@@ -152,39 +347,210 @@ export class GitlabIssuePostProcessor {
 		}
 		people.textContent = peopleText;
 
-		content.appendChild(header);
+		content.appendChild(this.createHeader(issue.state, issue.state.toUpperCase(), issue.title, issue.web_url));
 		content.appendChild(metadata);
 		content.appendChild(people);
+		this.appendLabels(content, labels);
+		this.appendDescription(content, issue.description);
+
+		if (onUpdate) {
+			content.appendChild(this.issueActions.createActionBar(issue, onUpdate));
+		}
 
-		// Labels
-		if (issue.labels && issue.labels.length > 0) {
+		return content;
+	}
+
+	private createMergeRequestCardContent(mergeRequest: MergeRequest, approvals: Approvals | null, labels: Array<Label>): HTMLElement {
+		const content = document.createElement('div');
+		const stateText = mergeRequest.draft && mergeRequest.state === 'opened' ? 'DRAFT' : mergeRequest.state.toUpperCase();
+
+		const reference = typeof mergeRequest.references === 'string'
+			? mergeRequest.references
+			: mergeRequest.references?.short || `!${mergeRequest.iid}`;
+		const metadata = this.createMetadata([
+			reference,
+			`${mergeRequest.source_branch} → ${mergeRequest.target_branch}`,
+			`Updated ${this.formatDate(mergeRequest.updated_at)}`,
+		]);
+
+		const status = document.createElement('div');
+		status.className = 'issue-metadata merge-request-status';
+
+		const pipelineStatus = mergeRequest.head_pipeline?.status;
+		if (pipelineStatus) {
+			const pipeline = document.createElement('span');
+			pipeline.className = `merge-request-pipeline ${pipelineStatus}`;
+			pipeline.textContent = `Pipeline ${pipelineStatus.replace(/_/g, ' ')}`;
+			status.appendChild(pipeline);
+		}
+
+		if (approvals) {
+			const approval = document.createElement('span');
+			approval.className = `merge-request-approvals${approvals.approved ? ' approved' : ''}`;
+			approval.textContent = this.formatApprovals(approvals);
+			status.appendChild(approval);
+		}
+
+		const people = document.createElement('div');
+		people.className = 'issue-metadata';
+
+		let peopleText = `Author: ${mergeRequest.author?.name || 'Unknown'}`;
+		if (mergeRequest.reviewers && mergeRequest.reviewers.length > 0) {
+			peopleText += ` • Reviewers: ${mergeRequest.reviewers.map(reviewer => reviewer.name).join(', ')}`;
+		}
+		people.textContent = peopleText;
+
+		content.appendChild(this.createHeader(mergeRequest.state, stateText, mergeRequest.title, mergeRequest.web_url));
+		content.appendChild(metadata);
+		if (status.hasChildNodes()) {
+			content.appendChild(status);
+		}
+		content.appendChild(people);
+		this.appendLabels(content, labels);
+		this.appendDescription(content, mergeRequest.description);
+
+		return content;
+	}
+
+	private createEpicCardContent(epic: GroupEpic, children: Array<Issue> | null): HTMLElement {
+		const content = document.createElement('div');
+
+		const reference = typeof epic.references === 'string' ? epic.references : epic.references?.short || `&${epic.iid}`;
+		content.appendChild(this.createHeader(epic.state, epic.state.toUpperCase(), epic.title, epic.web_url));
+		content.appendChild(this.createMetadata([
+			reference,
+			...this.formatSchedule(epic.start_date, epic.due_date),
+		]));
+
+		if (children && children.length > 0) {
+			const closed = children.filter(child => child.state === 'closed').length;
+			content.appendChild(this.createProgress(closed, children.length,
+				`${closed} of ${children.length} child issue${children.length > 1 ? 's' : ''} closed`));
+		}
+
+		this.appendLabels(content, epic.labels ?? []);
+		this.appendDescription(content, epic.description);
+
+		return content;
+	}
+
+	private createMilestoneCardContent(milestone: Milestone, statistics: IssuesStatistics | null): HTMLElement {
+		const content = document.createElement('div');
+
+		const stateText = milestone.expired && milestone.state === 'active' ? 'EXPIRED' : milestone.state.toUpperCase();
+		content.appendChild(this.createHeader(milestone.state, stateText, milestone.title, milestone.web_url));
+		content.appendChild(this.createMetadata([
+			`%${milestone.iid}`,
+			...this.formatSchedule(milestone.start_date, milestone.due_date),
+		]));
+
+		const counts = statistics?.statistics.counts;
+		if (counts && counts.all > 0) {
+			content.appendChild(this.createProgress(counts.closed, counts.all,
+				`${counts.opened} open • ${counts.closed} closed`));
+		}
+
+		this.appendDescription(content, milestone.description);
+
+		return content;
+	}
+
+	private createHeader(state: string, stateText: string, title: string, webUrl: string): HTMLElement {
+		const header = document.createElement('div');
+		header.className = 'issue-header';
+
+		const stateLabel = document.createElement('span');
+		stateLabel.textContent = stateText;
+		stateLabel.className = `issue-state ${state}`;
+
+		const titleLink = document.createElement('a');
+		titleLink.href = webUrl;
+		titleLink.textContent = title;
+		titleLink.className = 'issue-title';
+
+		header.appendChild(stateLabel);
+		header.appendChild(titleLink);
+		return header;
+	}
+
+	private createMetadata(parts: Array<string>): HTMLElement {
+		const metadata = document.createElement('div');
+		metadata.className = 'issue-metadata';
+		metadata.textContent = parts.join(' • ');
+		return metadata;
+	}
+
+	private createProgress(done: number, total: number, text: string): HTMLElement {
+		const progress = document.createElement('div');
+		progress.className = 'card-progress';
+
+		const track = document.createElement('div');
+		track.className = 'card-progress-track';
+		const bar = document.createElement('div');
+		bar.className = 'card-progress-bar';
+		bar.style.width = `${Math.round((done / total) * 100)}%`;
+		track.appendChild(bar);
+
+		const caption = document.createElement('span');
+		caption.className = 'card-progress-text';
+		caption.textContent = text;
+
+		progress.appendChild(track);
+		progress.appendChild(caption);
+		return progress;
+	}
+
+	private appendLabels(content: HTMLElement, labels: Array<Label>) {
+		if (labels.length > 0) {
 			const labelsContainer = document.createElement('div');
 			labelsContainer.className = 'issue-labels';
-			
-			issue.labels.forEach(label => {
-				const labelSpan = document.createElement('span');
-				labelSpan.textContent = label;
-				labelSpan.className = 'issue-label';
-				labelsContainer.appendChild(labelSpan);
-			});
-			
+
+			labels.forEach(label => labelsContainer.appendChild(createLabelChip(label)));
+
 			content.appendChild(labelsContainer);
 		}
+	}
 
-		// Description preview
-		if (issue.description && issue.description.trim()) {
+	private appendDescription(content: HTMLElement, text: string | null) {
+		if (text && text.trim()) {
 			const description = document.createElement('div');
 			description.className = 'issue-description';
 			
 			// Truncate description
-			const truncatedDesc = issue.description.length > 200 
-				? issue.description.substring(0, 200) + '...'
-				: issue.description;
-			description.textContent = truncatedDesc;
+			description.textContent = text.length > 200 
+				? text.substring(0, 200) + '...'
+				: text;
 			content.appendChild(description);
 		}
+	}
 
-		return content;
+	private formatApprovals(approvals: Approvals): string {
+		const approvers = approvals.approved_by.map(approver => approver.user.name);
+		if (approvals.approvals_left > 0) {
+			return `${approvals.approvals_left} approval${approvals.approvals_left > 1 ? 's' : ''} required`;
+		}
+		return approvers.length > 0 ? `Approved by ${approvers.join(', ')}` : 'Approved';
+	}
+
+	private formatSchedule(startDate: string | null, dueDate: string | null): Array<string> {
+		return [
+			...(startDate ? [`Starts ${startDate}`] : []),
+			...(dueDate ? [`Due ${dueDate}`] : []),
+		];
+	}
+
+	private formatAge(dateString: string): string {
+		const minutes = Math.floor((Date.now() - new Date(dateString).getTime()) / (1000 * 60));
+
+		if (minutes < 1) {
+			return 'just now';
+		} else if (minutes < 60) {
+			return `${minutes} minute${minutes > 1 ? 's' : ''} ago`;
+		} else if (minutes < 24 * 60) {
+			const hours = Math.floor(minutes / 60);
+			return `${hours} hour${hours > 1 ? 's' : ''} ago`;
+		}
+		return this.formatDate(dateString);
 	}
 
 	private formatDate(dateString: string): string {
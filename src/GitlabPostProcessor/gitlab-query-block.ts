@@ -0,0 +1,195 @@
+import { getConnection, getConnections, withConnection } from "../GitlabLoader/connections";
+import { Issue, Label } from "../GitlabLoader/issue-types";
+import LabelLoader, { getLabelDetails } from "../GitlabLoader/label-loader";
+import { GitlabIssuesSettings } from "../SettingsTab/settings-types";
+import { logger } from "../utils/utils";
+import CardCache from "./card-cache";
+import { GitlabIssuePostProcessor } from "./gitlab-issue-postprocessor";
+import { getQueryUrl, IssueQuery, parseIssueQuery, QUERY_COLUMNS, QueryColumn } from "./issue-query";
+import { createLabelChip } from "./label-chips";
+
+interface QueryResult {
+	issue: Issue;
+	labels: Array<Label>;
+}
+
+const LIST_COLUMNS: Array<QueryColumn> = ['state', 'title', 'reference', 'labels'];
+
+/** Renders `gitlab` code blocks as a live table, list or cards of the issues they query. */
+export class GitlabQueryBlock {
+	constructor(
+		private settings: GitlabIssuesSettings,
+		private cardCache: CardCache,
+		private labelLoader: LabelLoader,
+		private postProcessor: GitlabIssuePostProcessor
+	) {}
+
+	render(source: string, element: HTMLElement) {
+		const container = document.createElement('div');
+		container.className = 'gitlab-query';
+		element.appendChild(container);
+
+		if (!getConnections(this.settings).some((connection) => connection.token)) {
+			this.showMessage(container, 'Add a personal access token in the plugin settings to run this query.', 'gitlab-query-error');
+			return;
+		}
+
+		const query = parseIssueQuery(source);
+		this.showMessage(container, 'Loading issues...', 'gitlab-query-empty');
+		this.renderQuery(container, query, true).catch((error) => {
+			logger(`Error running GitLab query: ${error}`);
+			container.empty();
+			this.showMessage(container, `Could not load issues: ${error.message ?? error}`, 'gitlab-query-error');
+		});
+	}
+
+	/** Renders the results, and once more when cached results were refreshed in the background. */
+	private async renderQuery(container: HTMLElement, query: IssueQuery, revalidate: boolean) {
+		const connection = getConnection(this.settings, query.connection);
+		const settings = withConnection(this.settings, connection);
+		const refresh = revalidate
+			? () => this.renderQuery(container, query, false)
+				.catch((error) => logger(`Error refreshing GitLab query: ${error}`))
+			: undefined;
+
+		const data = await this.cardCache.load<Issue[]>(getQueryUrl(this.settings, query), settings.gitlabToken, refresh);
+
+		// A refresh may finish before the cached results were rendered, never go back to older data
+		if (container.dataset.fetchedAt && container.dataset.fetchedAt > data.fetchedAt) {
+			return;
+		}
+		container.dataset.fetchedAt = data.fetchedAt;
+
+		// Actions on the results go through the connection of the query
+		const results = await Promise.all(data.value.map(async (issue): Promise<QueryResult> => ({
+			issue: { ...issue, connection: connection.name },
+			labels: getLabelDetails(issue.labels, await this.labelLoader.loadLabels(issue.project_id, issue.web_url, connection.name)),
+		})));
+
+		container.empty();
+		query.errors.forEach((error) => this.showMessage(container, error, 'gitlab-query-error'));
+
+		if (results.length === 0) {
+			this.showMessage(container, 'No issues match this query.', 'gitlab-query-empty');
+		} else if (query.display === 'list') {
+			container.appendChild(this.createList(results, query));
+		} else if (query.display === 'cards') {
+			results.forEach((result) => {
+				const card = document.createElement('div');
+				card.className = 'gitlab-issue-card';
+				this.fillCard(card, result);
+				container.appendChild(card);
+			});
+		} else {
+			container.appendChild(this.createTable(results, query));
+		}
+
+		if (data.stale) {
+			this.showMessage(container, `Cached results from ${new Date(data.fetchedAt).toLocaleString()}`, 'issue-cache-marker');
+		}
+	}
+
+	/** Fills a card of the cards display, rendering it again when an action changed its issue. */
+	private fillCard(card: HTMLElement, { issue, labels }: QueryResult) {
+		const onUpdate = (updatedIssue: Issue) => {
+			this.labelLoader.loadLabels(updatedIssue.project_id, updatedIssue.web_url, updatedIssue.connection)
+				.then((definitions) => this.fillCard(card, {
+					issue: updatedIssue,
+					labels: getLabelDetails(updatedIssue.labels, definitions),
+				}))
+				.catch((error) => logger(`Error rendering GitLab issue card: ${error}`));
+		};
+
+		card.empty();
+		card.appendChild(this.postProcessor.createIssueCardContent(issue, labels, onUpdate));
+	}
+
+	private createTable(results: Array<QueryResult>, query: IssueQuery): HTMLElement {
+		const table = document.createElement('table');
+		table.className = 'gitlab-query-table';
+
+		const headerRow = table.createTHead().insertRow();
+		query.columns.forEach((column) => {
+			const header = document.createElement('th');
+			header.textContent = QUERY_COLUMNS[column];
+			headerRow.appendChild(header);
+		});
+
+		const body = table.createTBody();
+		results.forEach((result) => {
+			const row = body.insertRow();
+			query.columns.forEach((column) => row.insertCell().appendChild(this.createCell(result, column, query)));
+		});
+
+		return table;
+	}
+
+	private createList(results: Array<QueryResult>, query: IssueQuery): HTMLElement {
+		const list = document.createElement('ul');
+		list.className = 'gitlab-query-list';
+
+		results.forEach((result) => {
+			const item = document.createElement('li');
+			LIST_COLUMNS.forEach((column) => {
+				item.appendChild(this.createCell(result, column, query));
+				item.appendChild(document.createTextNode(' '));
+			});
+			list.appendChild(item);
+		});
+
+		return list;
+	}
+
+	private createCell({ issue, labels }: QueryResult, column: QueryColumn, query: IssueQuery): Node {
+		switch (column) {
+			case 'title': {
+				const link = document.createElement('a');
+				link.href = issue.web_url;
+				link.textContent = issue.title;
+				return link;
+			}
+			case 'state': {
+				const state = document.createElement('span');
+				state.className = `issue-state ${issue.state}`;
+				state.textContent = issue.state.toUpperCase();
+				return state;
+			}
+			case 'labels': {
+				const chips = document.createElement('span');
+				chips.className = 'issue-labels';
+				labels.forEach((label) => chips.appendChild(createLabelChip(label)));
+				return chips;
+			}
+			case 'reference':
+				return document.createTextNode(this.formatReference(issue, query));
+			case 'assignees':
+				return document.createTextNode((issue.assignees ?? []).map((assignee) => assignee.name).join(', '));
+			case 'author':
+				return document.createTextNode(issue.author?.name ?? '');
+			case 'milestone':
+				return document.createTextNode(issue.milestone?.title ?? '');
+			case 'due_date':
+				return document.createTextNode(issue.due_date ?? '');
+			case 'created_at':
+			case 'updated_at':
+			default:
+				return document.createTextNode(new Date(issue[column]).toLocaleDateString());
+		}
+	}
+
+	/** Short references are only unambiguous when every issue comes from the same project. */
+	private formatReference(issue: Issue, query: IssueQuery): string {
+		if (typeof issue.references === 'string') {
+			return issue.references;
+		}
+		const reference = query.source.type === 'project' ? issue.references?.short : issue.references?.full;
+		return reference ?? `#${issue.iid}`;
+	}
+
+	private showMessage(container: HTMLElement, text: string, className: string) {
+		const message = document.createElement('div');
+		message.className = className;
+		message.textContent = text;
+		container.appendChild(message);
+	}
+}
@@ -0,0 +1,53 @@
+export type GitlabLinkKind = "issue" | "merge_request" | "work_item" | "epic" | "milestone";
+
+/** A GitLab web URL the post-processor can render a card for. */
+export interface GitlabLink {
+	kind: GitlabLinkKind;
+	/** The project or group path, e.g. `group/project`. */
+	namespace: string;
+	/** True when `namespace` is a group rather than a project. */
+	group: boolean;
+	/** The number in the URL, i.e. the iid of the item within its project or group. */
+	iid: number;
+}
+
+const GROUP_PATTERN = /^\/groups\/(.+?)\/-\/(epics|milestones|work_items)\/(\d+)(?:\/|$)/;
+const PROJECT_PATTERN = /^\/(.+?)\/-\/(issues|merge_requests|milestones|work_items)\/(\d+)(?:\/|$)/;
+
+const KINDS: Record<string, GitlabLinkKind> = {
+	issues: "issue",
+	merge_requests: "merge_request",
+	milestones: "milestone",
+	work_items: "work_item",
+	epics: "epic",
+};
+
+/**
+ * Parses issue, merge request, work item, epic and milestone URLs, e.g.
+ * `https://gitlab.com/group/project/-/merge_requests/12` or `https://gitlab.com/groups/group/-/epics/3`.
+ * Returns null for any other URL.
+ */
+export function parseGitlabUrl(url: string): GitlabLink | null {
+	let pathname: string;
+	try {
+		pathname = decodeURIComponent(new URL(url).pathname);
+	} catch (error) {
+		return null;
+	}
+
+	const groupMatch = pathname.match(GROUP_PATTERN);
+	if (groupMatch) {
+		const [, namespace, type, iid] = groupMatch;
+		// Group level work items are epics, which keep their iid when shown as work items
+		const kind = type === "work_items" ? "epic" : KINDS[type];
+		return { kind, namespace, group: true, iid: parseInt(iid) };
+	}
+
+	const projectMatch = pathname.match(PROJECT_PATTERN);
+	if (projectMatch) {
+		const [, namespace, type, iid] = projectMatch;
+		return { kind: KINDS[type], namespace, group: false, iid: parseInt(iid) };
+	}
+
+	return null;
+}
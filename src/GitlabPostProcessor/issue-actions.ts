@@ -0,0 +1,135 @@
+import { App, Notice } from "obsidian";
+import { getSettingsForItem } from "../GitlabLoader/connections";
+import { CachedNotes } from "../GitlabLoader/discussion-loader";
+import GitlabApi from "../GitlabLoader/gitlab-api";
+import GitlabLoader from "../GitlabLoader/gitlab-loader";
+import { Issue } from "../GitlabLoader/issue-types";
+import LabelLoader from "../GitlabLoader/label-loader";
+import { loadCurrentUser } from "../GitlabLoader/lookups";
+import { DueDateModal } from "../Modals/due-date-modal";
+import { LabelSuggestModal } from "../Modals/label-suggest-modal";
+import { GitlabIssuesSettings } from "../SettingsTab/settings-types";
+import PersistentCache from "../utils/persistent-cache";
+import { logger } from "../utils/utils";
+
+/** Called with the issue as GitLab returned it after an action, to render the card again. */
+export type IssueUpdated = (issue: Issue) => void;
+
+/**
+ * The actions of an issue card. Changes are made through the API, after which the card is rendered
+ * again and the synced note of the issue, if there is one, is updated.
+ */
+export default class IssueActions {
+	constructor(
+		private app: App,
+		private settings: GitlabIssuesSettings,
+		private labelLoader: LabelLoader,
+		private notesCache: PersistentCache<CachedNotes>
+	) {}
+
+	createActionBar(issue: Issue, onUpdate: IssueUpdated): HTMLElement {
+		const bar = document.createElement('div');
+		bar.className = 'issue-actions';
+
+		const addButton = (text: string, action: () => Promise<void> | void) => {
+			const button = document.createElement('button');
+			button.className = 'issue-action';
+			button.textContent = text;
+			button.addEventListener('click', async (event) => {
+				event.preventDefault();
+				button.disabled = true;
+				try {
+					await action();
+				} finally {
+					button.disabled = false;
+				}
+			});
+			bar.appendChild(button);
+		};
+
+		addButton(issue.state === 'closed' ? 'Reopen' : 'Close', () =>
+			this.update(issue, { state_event: issue.state === 'closed' ? 'reopen' : 'close' }, onUpdate));
+		addButton('Assign to me', () => this.assignToMe(issue, onUpdate));
+		addButton('Labels', () => this.chooseLabel(issue, onUpdate));
+		addButton('Due date', () => {
+			new DueDateModal(this.app, issue.due_date || null, (dueDate) => {
+				this.update(issue, { due_date: dueDate }, onUpdate);
+			}).open();
+		});
+		addButton('Open in GitLab', () => {
+			window.open(issue.web_url);
+		});
+		addButton('Open note', () => this.openNote(issue));
+
+		return bar;
+	}
+
+	private async assignToMe(issue: Issue, onUpdate: IssueUpdated) {
+		try {
+			const currentUser = await loadCurrentUser(getSettingsForItem(this.settings, issue.connection, issue.web_url));
+			const assigneeIds = (issue.assignees ?? []).map((assignee) => assignee.id);
+
+			if (assigneeIds.includes(currentUser.id)) {
+				new Notice(`${this.getReference(issue)} is already assigned to you`);
+				return;
+			}
+			await this.update(issue, { assignee_ids: [...assigneeIds, currentUser.id] }, onUpdate);
+		} catch (error) {
+			this.reportError(issue, error);
+		}
+	}
+
+	private async chooseLabel(issue: Issue, onUpdate: IssueUpdated) {
+		try {
+			const labels = await this.labelLoader.loadLabels(issue.project_id, issue.web_url, issue.connection);
+			new LabelSuggestModal(this.app, labels, issue.labels ?? [], ({ label, add }) => {
+				this.update(issue, add ? { add_labels: label.name } : { remove_labels: label.name }, onUpdate);
+			}).open();
+		} catch (error) {
+			this.reportError(issue, error);
+		}
+	}
+
+	private async openNote(issue: Issue) {
+		try {
+			const note = await this.createLoader().saveIssueNote(issue, true);
+			if (note) {
+				await this.app.workspace.getLeaf(true).openFile(note);
+			}
+		} catch (error) {
+			this.reportError(issue, error);
+		}
+	}
+
+	private async update(issue: Issue, body: Record<string, unknown>, onUpdate: IssueUpdated) {
+		try {
+			const settings = getSettingsForItem(this.settings, issue.connection, issue.web_url);
+			const updatedIssue: Issue = {
+				...await GitlabApi.update<Issue>(
+					`${settings.gitlabApiUrl()}/projects/${issue.project_id}/issues/${issue.iid}`,
+					settings.gitlabToken,
+					body
+				),
+				connection: issue.connection,
+			};
+
+			onUpdate(updatedIssue);
+			await this.createLoader().saveIssueNote(updatedIssue, false);
+		} catch (error) {
+			this.reportError(issue, error);
+		}
+	}
+
+	private createLoader(): GitlabLoader {
+		return new GitlabLoader(this.app, this.settings, this.notesCache, this.labelLoader);
+	}
+
+	private getReference(issue: Issue): string {
+		return typeof issue.references === 'string' ? issue.references : issue.references?.short || `#${issue.iid}`;
+	}
+
+	private reportError(issue: Issue, error: Error) {
+		new Notice(`Could not update ${this.getReference(issue)}: ${error.message}`);
+		logger(error.message);
+	}
+}
@@ -0,0 +1,175 @@
+import { getConnection, withConnection } from "../GitlabLoader/connections";
+import { emptyFilter, IssueFilter, parseFilter, serializeFilter } from "../SettingsTab/filter-builder";
+import { GitlabIssuesSettings } from "../SettingsTab/settings-types";
+
+export type QueryDisplay = "table" | "list" | "cards";
+
+export const QUERY_COLUMNS = {
+	reference: "Reference",
+	title: "Title",
+	state: "State",
+	labels: "Labels",
+	assignees: "Assignees",
+	author: "Author",
+	milestone: "Milestone",
+	due_date: "Due",
+	created_at: "Created",
+	updated_at: "Updated",
+};
+
+export type QueryColumn = keyof typeof QUERY_COLUMNS;
+
+/** The contents of a `gitlab` code block. */
+export interface IssueQuery {
+	source: { type: "project" | "group" | "personal"; id: string };
+	connection: string;
+	filter: IssueFilter;
+	display: QueryDisplay;
+	columns: QueryColumn[];
+	limit: number;
+	/** Lines that could not be understood, shown above the results. */
+	errors: string[];
+}
+
+const DEFAULT_COLUMNS: QueryColumn[] = ["reference", "title", "state", "labels", "assignees", "updated_at"];
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/** Block keys that set a filter field, next to `filter:` for anything else the API accepts. */
+const FILTER_KEYS: Record<string, keyof Omit<IssueFilter, "labels" | "notLabels" | "other">> = {
+	state: "state",
+	milestone: "milestone",
+	assignee: "assigneeUsername",
+	author: "authorUsername",
+	scope: "scope",
+	due: "dueDate",
+	search: "search",
+	confidential: "confidential",
+	iteration: "iterationTitle",
+};
+
+function isColumn(column: string): column is QueryColumn {
+	return Object.keys(QUERY_COLUMNS).includes(column);
+}
+
+function toList(value: string): string[] {
+	return value.split(",").map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
+/**
+ * Parses a `gitlab` code block made of `key: value` lines, e.g.
+ *
+ *     project: group/app
+ *     labels: bug
+ *     state: opened
+ *     display: list
+ *     sort: due_date asc
+ */
+export function parseIssueQuery(source: string): IssueQuery {
+	const query: IssueQuery = {
+		source: { type: "personal", id: "" },
+		connection: "",
+		filter: emptyFilter(),
+		display: "table",
+		columns: DEFAULT_COLUMNS,
+		limit: DEFAULT_LIMIT,
+		errors: [],
+	};
+	const fields: Array<[string, string]> = [];
+
+	source
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line.length > 0 && !line.startsWith("#"))
+		.forEach((line) => {
+			const separator = line.indexOf(":");
+			if (separator === -1) {
+				query.errors.push(`Expected "key: value" but found "${line}"`);
+			} else {
+				fields.push([line.slice(0, separator).trim().toLowerCase(), line.slice(separator + 1).trim()]);
+			}
+		});
+
+	// A raw filter goes first, so the dedicated keys win over the same parameters in it
+	fields
+		.filter(([key]) => key === "filter")
+		.forEach(([, value]) => query.filter = parseFilter(value));
+
+	fields.forEach(([key, value]) => {
+		switch (key) {
+			case "filter":
+				break;
+			case "project":
+			case "group":
+				query.source = { type: key, id: value };
+				break;
+			case "connection":
+				query.connection = value;
+				break;
+			case "labels":
+				query.filter.labels = toList(value);
+				break;
+			case "not labels":
+				query.filter.notLabels = toList(value);
+				break;
+			case "display":
+				if (value === "table" || value === "list" || value === "cards") {
+					query.display = value;
+				} else {
+					query.errors.push(`Unknown display "${value}", use table, list or cards`);
+				}
+				break;
+			case "columns": {
+				const columns = toList(value);
+				const unknown = columns.filter((column) => !isColumn(column));
+				if (unknown.length > 0) {
+					query.errors.push(`Unknown columns: ${unknown.join(", ")}`);
+				}
+				query.columns = columns.filter(isColumn);
+				break;
+			}
+			case "limit": {
+				const limit = parseInt(value);
+				if (isNaN(limit) || limit < 1) {
+					query.errors.push(`Invalid limit "${value}"`);
+				} else {
+					query.limit = Math.min(limit, MAX_LIMIT);
+				}
+				break;
+			}
+			case "sort": {
+				const [orderBy, direction = ""] = value.split(/\s+/);
+				query.filter.orderBy = orderBy;
+				query.filter.sort = direction.toLowerCase();
+				break;
+			}
+			default:
+				if (Object.keys(FILTER_KEYS).includes(key)) {
+					query.filter[FILTER_KEYS[key]] = value;
+				} else {
+					query.errors.push(`Unknown key "${key}"`);
+				}
+		}
+	});
+
+	return query;
+}
+
+/** Builds the issue list URL of a query, on the instance of its connection. */
+export function getQueryUrl(settings: GitlabIssuesSettings, query: IssueQuery): string {
+	const baseUrl = withConnection(settings, getConnection(settings, query.connection)).gitlabApiUrl();
+	// The serialized filter is already encoded
+	const parameters = [serializeFilter(query.filter), `per_page=${query.limit}`]
+		.filter((parameter) => parameter.length > 0)
+		.join("&");
+
+	switch (query.source.type) {
+		case "project":
+			return `${baseUrl}/projects/${encodeURIComponent(query.source.id)}/issues?${parameters}`;
+		case "group":
+			return `${baseUrl}/groups/${encodeURIComponent(query.source.id)}/issues?${parameters}`;
+		case "personal":
+		default:
+			return `${baseUrl}/issues?${parameters}`;
+	}
+}
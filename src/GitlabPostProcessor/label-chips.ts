@@ -0,0 +1,39 @@
+import { Label } from "../GitlabLoader/issue-types";
+
+const SCOPE_SEPARATOR = "::";
+
+/**
+ * Renders a label the way GitLab does: in its own colors, and for scoped labels such as
+ * `priority::high` split into a filled scope and an outlined value.
+ */
+export function createLabelChip(label: Label): HTMLElement {
+	const chip = document.createElement("span");
+	chip.className = "issue-label";
+	chip.title = label.description ?? "";
+
+	// GitLab splits scoped labels at the last separator, e.g. `workflow::review::done`
+	const separator = label.name.lastIndexOf(SCOPE_SEPARATOR);
+	if (separator <= 0) {
+		chip.textContent = label.name;
+		chip.style.backgroundColor = label.color;
+		chip.style.color = label.text_color;
+		return chip;
+	}
+
+	chip.classList.add("scoped");
+	chip.style.borderColor = label.color;
+
+	const scope = document.createElement("span");
+	scope.className = "issue-label-scope";
+	scope.textContent = label.name.slice(0, separator);
+	scope.style.backgroundColor = label.color;
+	scope.style.color = label.text_color;
+
+	const value = document.createElement("span");
+	value.className = "issue-label-value";
+	value.textContent = label.name.slice(separator + SCOPE_SEPARATOR.length);
+
+	chip.appendChild(scope);
+	chip.appendChild(value);
+	return chip;
+}
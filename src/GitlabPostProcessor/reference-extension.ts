@@ -0,0 +1,100 @@
+import { RangeSetBuilder, Text } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, WidgetType } from "@codemirror/view";
+import { editorLivePreviewField } from "obsidian";
+import { GitlabIssuePostProcessor } from "./gitlab-issue-postprocessor";
+import { ShortReference } from "./short-references";
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+class IssueReferenceWidget extends WidgetType {
+	constructor(private reference: ShortReference, private postProcessor: GitlabIssuePostProcessor) {
+		super();
+	}
+
+	eq(other: IssueReferenceWidget): boolean {
+		return other.reference.projectPath === this.reference.projectPath
+			&& other.reference.iid === this.reference.iid
+			&& other.reference.text === this.reference.text;
+	}
+
+	toDOM(): HTMLElement {
+		return this.postProcessor.createIssuePill(this.reference);
+	}
+}
+
+/** The numbers of the lines inside frontmatter or fenced code blocks, up to `lastLine`. */
+function getExcludedLines(doc: Text, lastLine: number): Set<number> {
+	const excluded = new Set<number>();
+	let inFrontmatter = doc.line(1).text === "---";
+	let inFence = false;
+
+	for (let number = 1; number <= lastLine; number++) {
+		const text = doc.line(number).text;
+
+		if (inFrontmatter) {
+			excluded.add(number);
+			inFrontmatter = number === 1 || text !== "---";
+		} else if (FENCE_PATTERN.test(text)) {
+			excluded.add(number);
+			inFence = !inFence;
+		} else if (inFence) {
+			excluded.add(number);
+		}
+	}
+
+	return excluded;
+}
+
+function buildDecorations(view: EditorView, postProcessor: GitlabIssuePostProcessor | null): DecorationSet {
+	const builder = new RangeSetBuilder<Decoration>();
+	if (!postProcessor || !view.state.field(editorLivePreviewField, false)) {
+		return builder.finish();
+	}
+
+	const { doc, selection } = view.state;
+	const lastVisible = view.visibleRanges[view.visibleRanges.length - 1];
+	const excluded = lastVisible ? getExcludedLines(doc, doc.lineAt(lastVisible.to).number) : new Set<number>();
+
+	let previousLine = 0;
+	for (const { from, to } of view.visibleRanges) {
+		// Visible ranges can share a line, which must only be decorated once
+		for (let number = Math.max(doc.lineAt(from).number, previousLine + 1); number <= doc.lineAt(to).number; number++) {
+			previousLine = number;
+			const line = doc.line(number);
+			if (excluded.has(number)) {
+				continue;
+			}
+
+			postProcessor.findShortReferences(line.text).forEach((reference) => {
+				const start = line.from + reference.from;
+				const end = line.from + reference.to;
+				// Show the source while the cursor is on a reference, so it can be edited
+				if (!selection.ranges.some((range) => range.from <= end && range.to >= start)) {
+					builder.add(start, end, Decoration.replace({ widget: new IssueReferenceWidget(reference, postProcessor) }));
+				}
+			});
+		}
+	}
+
+	return builder.finish();
+}
+
+/** Renders short issue references as pills in live preview, like the post-processor does in reading mode. */
+export function createReferenceExtension(getPostProcessor: () => GitlabIssuePostProcessor | null) {
+	return ViewPlugin.fromClass(class {
+		decorations: DecorationSet;
+
+		constructor(view: EditorView) {
+			this.decorations = buildDecorations(view, getPostProcessor());
+		}
+
+		update(update: ViewUpdate) {
+			const modeChanged = update.startState.field(editorLivePreviewField, false) !== update.state.field(editorLivePreviewField, false);
+			if (update.docChanged || update.viewportChanged || update.selectionSet || modeChanged) {
+				this.decorations = buildDecorations(update.view, getPostProcessor());
+			}
+		}
+	}, {
+		decorations: (plugin) => plugin.decorations,
+	});
+}
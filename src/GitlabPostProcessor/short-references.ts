@@ -0,0 +1,57 @@
+/** A GitLab style issue reference such as `#42`, `app#42` or `group/app#42`. */
+export interface ShortReference {
+	/** Where the reference starts and ends in the searched text. */
+	from: number;
+	to: number;
+	text: string;
+	/** The full path of the project the issue belongs to. */
+	projectPath: string;
+	iid: number;
+}
+
+// Not preceded by anything that makes it part of a word, path, URL or e-mail address
+const REFERENCE_PATTERN = /(?<![\w/#&.:@-])((?:[\w.-]+\/)*[\w.-]+)?#(\d+)\b/g;
+const INLINE_CODE_PATTERN = /`[^`\n]*`/g;
+
+/**
+ * Resolves the project part of a reference like GitLab does: nothing stands for the default project,
+ * a bare name for a project next to it, and a path for itself. Returns null when it cannot be resolved.
+ */
+export function resolveProjectPath(project: string, defaultProject: string): string | null {
+	const defaultPath = defaultProject.trim().replace(/^\/+|\/+$/g, "");
+
+	if (!project) {
+		return defaultPath || null;
+	}
+	if (project.includes("/")) {
+		return project;
+	}
+
+	const separator = defaultPath.lastIndexOf("/");
+	return separator === -1 ? null : `${defaultPath.slice(0, separator)}/${project}`;
+}
+
+/** Finds the issue references in a piece of text, leaving out inline code and unresolvable ones. */
+export function findShortReferences(text: string, defaultProject: string): Array<ShortReference> {
+	// Blank out inline code, keeping the offsets of everything else
+	const searchable = text.replace(INLINE_CODE_PATTERN, (code) => " ".repeat(code.length));
+
+	const references: Array<ShortReference> = [];
+	const pattern = new RegExp(REFERENCE_PATTERN);
+	let match: RegExpExecArray | null;
+
+	while ((match = pattern.exec(searchable)) !== null) {
+		const projectPath = resolveProjectPath(match[1] ?? "", defaultProject);
+		if (projectPath !== null) {
+			references.push({
+				from: match.index,
+				to: match.index + match[0].length,
+				text: match[0],
+				projectPath,
+				iid: parseInt(match[2]),
+			});
+		}
+	}
+
+	return references;
+}
@@ -0,0 +1,198 @@
+import { App, CachedMetadata, Notice, TFile } from "obsidian";
+import GitlabApi from "../GitlabLoader/gitlab-api";
+import { Issue } from "../GitlabLoader/issue-types";
+import { getSettingsForItem } from "../GitlabLoader/connections";
+import { findMilestoneId, findUserId } from "../GitlabLoader/lookups";
+import { GitlabIssuesSettings } from "../SettingsTab/settings-types";
+import { logger } from "../utils/utils";
+import { isIssueNote, toList } from "./issue-notes";
+
+/** Fields of an issue that can be edited from a note's frontmatter. */
+export interface FrontmatterChanges {
+	state_event?: "close" | "reopen";
+	labels?: string[];
+	due_date?: string | null;
+	assignees?: string[];
+	milestone?: string | null;
+}
+
+/** The editable fields of a note's frontmatter, along with the `updatedAt` every write by the plugin moves. */
+export interface FrontmatterSnapshot {
+	fields: string;
+	updatedAt: string;
+}
+
+const EDIT_DEBOUNCE_MS = 2000;
+const SYNCED_FIELDS = ["state", "labels", "dueDate", "assignees", "milestone"];
+
+function sameItems(left: string[], right: string[]): boolean {
+	return left.length === right.length && [...left].sort().join("\n") === [...right].sort().join("\n");
+}
+
+/**
+ * Compares the editable fields of a note's frontmatter with the issue in GitLab.
+ * Fields missing from the frontmatter are left alone, so custom templates only sync what they show.
+ */
+export function diffFrontmatter(frontmatter: Record<string, unknown>, issue: Issue): FrontmatterChanges {
+	const changes: FrontmatterChanges = {};
+
+	if ("state" in frontmatter && frontmatter.state !== issue.state) {
+		if (frontmatter.state === "closed" || frontmatter.state === "opened") {
+			changes.state_event = frontmatter.state === "closed" ? "close" : "reopen";
+		}
+	}
+
+	if ("labels" in frontmatter) {
+		const labels = toList(frontmatter.labels);
+		if (!sameItems(labels, issue.labels ?? [])) {
+			changes.labels = labels;
+		}
+	}
+
+	if ("dueDate" in frontmatter) {
+		const dueDate = frontmatter.dueDate ? String(frontmatter.dueDate) : null;
+		if (dueDate !== (issue.due_date || null)) {
+			changes.due_date = dueDate;
+		}
+	}
+
+	if ("assignees" in frontmatter) {
+		const assignees = toList(frontmatter.assignees);
+		if (!sameItems(assignees, (issue.assignees ?? []).map((assignee) => assignee.username))) {
+			changes.assignees = assignees;
+		}
+	}
+
+	if ("milestone" in frontmatter) {
+		const milestone = frontmatter.milestone ? String(frontmatter.milestone) : null;
+		if (milestone !== (issue.milestone?.title ?? null)) {
+			changes.milestone = milestone;
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Whether a change to a note's frontmatter is an edit by the user. A new note, or one whose `updatedAt`
+ * changed along with it, was written by a sync or by pushing an earlier edit, and has nothing to send.
+ */
+export function isUserEdit(previous: FrontmatterSnapshot | undefined, next: FrontmatterSnapshot): boolean {
+	return !!previous && previous.updatedAt === next.updatedAt && previous.fields !== next.fields;
+}
+
+/**
+ * Pushes frontmatter edits made to synced issue notes back to GitLab.
+ * An edit is only sent when the note's `updatedAt` still matches the issue, so a change made in
+ * GitLab since the last sync is never overwritten; the user is told to refresh instead.
+ */
+export default class FrontmatterSync {
+	private pendingEdits = new Map<string, number>();
+	private snapshots = new Map<string, FrontmatterSnapshot>();
+
+	constructor(private app: App, private settings: GitlabIssuesSettings) {}
+
+	/** Remembers the current frontmatter of every issue note so later edits can be told apart from body edits. */
+	public initialize() {
+		this.app.vault.getMarkdownFiles().forEach((file) => {
+			const cache = this.app.metadataCache.getFileCache(file);
+			if (cache && this.isIssueNote(file, cache)) {
+				this.snapshots.set(file.path, this.snapshot(cache));
+			}
+		});
+	}
+
+	public handleMetadataChange(file: TFile, cache: CachedMetadata) {
+		if (!this.isIssueNote(file, cache)) {
+			return;
+		}
+
+		// Kept up to date while two-way sync is off too, so turning it on does not take synced notes for edits
+		const previous = this.snapshots.get(file.path);
+		const snapshot = this.snapshot(cache);
+		this.snapshots.set(file.path, snapshot);
+
+		if (!this.settings.twoWaySync || !isUserEdit(previous, snapshot)) {
+			return;
+		}
+
+		// Wait for the user to stop typing before talking to GitLab
+		window.clearTimeout(this.pendingEdits.get(file.path));
+		this.pendingEdits.set(file.path, window.setTimeout(() => {
+			this.pendingEdits.delete(file.path);
+			this.pushChanges(file).catch((error) => {
+				new Notice(`Could not update GitLab issue: ${error.message}`);
+				logger(error.message);
+			});
+		}, EDIT_DEBOUNCE_MS));
+	}
+
+	private snapshot(cache: CachedMetadata): FrontmatterSnapshot {
+		return {
+			fields: JSON.stringify(SYNCED_FIELDS.map((field) => cache.frontmatter?.[field])),
+			updatedAt: String(cache.frontmatter?.updatedAt),
+		};
+	}
+
+	private isIssueNote(file: TFile, cache: CachedMetadata): boolean {
+		return isIssueNote(this.settings, file, cache.frontmatter);
+	}
+
+	private async pushChanges(file: TFile) {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter) {
+			return;
+		}
+
+		// Notes are routed to the connection they were synced through
+		const settings = getSettingsForItem(this.settings, frontmatter.connection, String(frontmatter.webUrl ?? ""));
+		const issueUrl = `${settings.gitlabApiUrl()}/projects/${frontmatter.projectId}/issues/${frontmatter.iid}`;
+		const issue = await GitlabApi.load<Issue>(issueUrl, settings.gitlabToken);
+		const changes = diffFrontmatter(frontmatter, issue);
+
+		if (Object.keys(changes).length === 0) {
+			return;
+		}
+
+		if (issue.updated_at !== String(frontmatter.updatedAt)) {
+			new Notice(`"${issue.title}" was changed in GitLab since the last sync. Refresh the issues before editing it.`);
+			return;
+		}
+
+		const updatedIssue = await GitlabApi.update<Issue>(
+			issueUrl,
+			settings.gitlabToken,
+			await this.buildRequestBody(settings, frontmatter.projectId, changes)
+		);
+
+		await this.app.fileManager.processFrontMatter(file, (existingFrontmatter) => {
+			existingFrontmatter.updatedAt = updatedIssue.updated_at;
+		});
+		new Notice(`Updated "${updatedIssue.title}" in GitLab`);
+	}
+
+	private async buildRequestBody(
+		settings: GitlabIssuesSettings,
+		projectId: string,
+		changes: FrontmatterChanges): Promise<Record<string, unknown>> {
+		const body: Record<string, unknown> = {};
+
+		if (changes.state_event) {
+			body.state_event = changes.state_event;
+		}
+		if (changes.labels) {
+			body.labels = changes.labels.join(",");
+		}
+		if (changes.due_date !== undefined) {
+			body.due_date = changes.due_date ?? "";
+		}
+		if (changes.assignees) {
+			body.assignee_ids = await Promise.all(changes.assignees.map((username) => findUserId(settings, username)));
+		}
+		if (changes.milestone !== undefined) {
+			body.milestone_id = changes.milestone === null ? 0 : await findMilestoneId(settings, projectId, changes.milestone);
+		}
+
+		return body;
+	}
+}
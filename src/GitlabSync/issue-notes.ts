@@ -0,0 +1,85 @@
+import { App, FrontMatterCache, normalizePath, TFile } from "obsidian";
+import { GitlabIssuesSettings } from "../SettingsTab/settings-types";
+
+/** The `kind` the default issue template records, telling issue notes apart from merge request notes. */
+export const ISSUE_KIND = "issue";
+
+/** An issue as recorded in the frontmatter of its synced note. */
+export interface SyncedIssue {
+	file: TFile;
+	id: number;
+	iid: number;
+	projectId: string;
+	title: string;
+	state: string;
+	labels: string[];
+	assignees: string[];
+	milestone: string | null;
+	dueDate: string | null;
+	updatedAt: string;
+	webUrl: string;
+	project: string;
+	/** The connection the note was synced through, null for notes synced before it was recorded. */
+	connection: string | null;
+}
+
+export function toList(value: unknown): string[] {
+	if (Array.isArray(value)) {
+		return value.map(String);
+	}
+	if (typeof value === "string") {
+		return value.split(",").map((item) => item.trim()).filter((item) => item.length > 0);
+	}
+	return [];
+}
+
+/** The folders issue notes are written to, custom sources may have their own. */
+export function getIssueOutputDirs(settings: GitlabIssuesSettings): string[] {
+	return [settings.outputDir, ...settings.sources.map((source) => source.outputDir)]
+		.filter((outputDir) => outputDir)
+		.map((outputDir) => normalizePath(outputDir));
+}
+
+/**
+ * Whether a note is an issue note written by a sync, with the frontmatter needed to find its issue again.
+ * Merge request notes share those fields, so notes with another `kind`, or without one in the merge request
+ * folder, are left out.
+ */
+export function isIssueNote(settings: GitlabIssuesSettings, file: TFile, frontmatter: FrontMatterCache | undefined): boolean {
+	const kind = frontmatter?.kind;
+	const inMergeRequestDir = !!settings.mergeRequestOutputDir
+		&& file.path.startsWith(`${normalizePath(settings.mergeRequestOutputDir)}/`);
+
+	return getIssueOutputDirs(settings).some((outputDir) => file.path.startsWith(`${outputDir}/`))
+		&& (kind === ISSUE_KIND || (!kind && !inMergeRequestDir))
+		&& !!frontmatter?.projectId
+		&& !!frontmatter?.iid
+		&& !!frontmatter?.updatedAt;
+}
+
+/** Reads the issues of all synced issue notes in the vault from their frontmatter. */
+export function getSyncedIssues(app: App, settings: GitlabIssuesSettings): Array<SyncedIssue> {
+	return app.vault.getMarkdownFiles().flatMap((file) => {
+		const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter || !isIssueNote(settings, file, frontmatter)) {
+			return [];
+		}
+
+		return [{
+			file,
+			id: Number(frontmatter.id),
+			iid: Number(frontmatter.iid),
+			projectId: String(frontmatter.projectId),
+			title: String(frontmatter.title ?? file.basename),
+			state: String(frontmatter.state ?? ""),
+			labels: toList(frontmatter.labels),
+			assignees: toList(frontmatter.assignees),
+			milestone: frontmatter.milestone ? String(frontmatter.milestone) : null,
+			dueDate: frontmatter.dueDate ? String(frontmatter.dueDate) : null,
+			updatedAt: String(frontmatter.updatedAt),
+			webUrl: String(frontmatter.webUrl ?? ""),
+			project: String(frontmatter.project ?? ""),
+			connection: frontmatter.connection ? String(frontmatter.connection) : null,
+		}];
+	});
+}
@@ -0,0 +1,78 @@
+import { TFile } from "obsidian";
+import { Issue } from "../GitlabLoader/issue-types";
+import { SyncedIssue } from "../GitlabSync/issue-notes";
+import { parseGitlabUrl } from "../GitlabPostProcessor/gitlab-url";
+import { IssueLinkFormat } from "../SettingsTab/settings-types";
+
+/** An issue that can be linked, from a synced note, the GitLab search, or both. */
+export interface IssueChoice {
+	title: string;
+	/** The project path, e.g. `group/app`, empty when the web URL could not be parsed. */
+	projectPath: string;
+	iid: number;
+	state: string;
+	webUrl: string;
+	/** The synced note of the issue, if there is one. */
+	file: TFile | null;
+}
+
+export function choiceFromSyncedIssue(issue: SyncedIssue): IssueChoice {
+	return {
+		title: issue.title,
+		projectPath: parseGitlabUrl(issue.webUrl)?.namespace ?? "",
+		iid: issue.iid,
+		state: issue.state,
+		webUrl: issue.webUrl,
+		file: issue.file,
+	};
+}
+
+export function choiceFromIssue(issue: Issue): IssueChoice {
+	return {
+		title: issue.title,
+		projectPath: parseGitlabUrl(issue.web_url)?.namespace ?? "",
+		iid: issue.iid,
+		state: issue.state,
+		webUrl: issue.web_url,
+		file: null,
+	};
+}
+
+/** The full reference of an issue, e.g. `group/app#12`. */
+export function getFullReference(choice: IssueChoice): string {
+	return `${choice.projectPath}#${choice.iid}`;
+}
+
+/**
+ * Keeps the synced issues first and adds the issues GitLab found that have no note. Found issues that
+ * do have a note are dropped, the synced choice already links to it.
+ */
+export function mergeChoices(synced: Array<IssueChoice>, found: Array<IssueChoice>): Array<IssueChoice> {
+	const syncedUrls = new Set(synced.map((choice) => choice.webUrl));
+	return [...synced, ...found.filter((choice) => !syncedUrls.has(choice.webUrl))];
+}
+
+/** Matches choices whose title or reference contains every word of the query, ignoring case. */
+export function filterChoices(choices: Array<IssueChoice>, query: string): Array<IssueChoice> {
+	const words = query.toLowerCase().split(/\s+/).filter((word) => word.length > 0);
+	return choices.filter((choice) => {
+		const text = `${getFullReference(choice)} ${choice.title}`.toLowerCase();
+		return words.every((word) => text.includes(word));
+	});
+}
+
+/**
+ * The text inserted for an issue. Short references leave out the project when it is the default
+ * project, like GitLab does. Linking to a note falls back to the URL for issues without one.
+ */
+export function formatIssueLink(choice: IssueChoice, format: IssueLinkFormat, defaultProject: string, noteLink: string | null): string {
+	switch (format) {
+		case "reference":
+			return choice.projectPath === defaultProject.trim() ? `#${choice.iid}` : getFullReference(choice);
+		case "wikilink":
+			return noteLink ?? choice.webUrl;
+		case "url":
+		default:
+			return choice.webUrl;
+	}
+}
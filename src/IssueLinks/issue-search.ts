@@ -0,0 +1,58 @@
+import { App } from "obsidian";
+import GitlabLoader from "../GitlabLoader/gitlab-loader";
+import { getSyncedIssues } from "../GitlabSync/issue-notes";
+import { GitlabIssuesSettings } from "../SettingsTab/settings-types";
+import { logger } from "../utils/utils";
+import { choiceFromIssue, choiceFromSyncedIssue, filterChoices, formatIssueLink, IssueChoice, mergeChoices } from "./issue-links";
+
+/** Queries shorter than this only search the synced notes. */
+const MIN_SEARCH_LENGTH = 3;
+const SEARCH_DELAY_MS = 300;
+const SEARCH_LIMIT = 10;
+
+/** Finds issues to link in the synced notes and on GitLab, for the issue picker and the editor suggestions. */
+export default class IssueSearch {
+	private latestQuery = "";
+
+	constructor(private app: App, private settings: GitlabIssuesSettings) {}
+
+	getSyncedChoices(): Array<IssueChoice> {
+		return getSyncedIssues(this.app, this.settings).map(choiceFromSyncedIssue);
+	}
+
+	/** The synced issues matching the query, followed by the issues GitLab found for it. */
+	async search(query: string): Promise<Array<IssueChoice>> {
+		const synced = filterChoices(this.getSyncedChoices(), query);
+		return mergeChoices(synced, await this.searchGitlab(query));
+	}
+
+	/**
+	 * Searches GitLab once typing paused. Searches that a newer query replaced while waiting
+	 * return nothing, so typing does not send a request per key.
+	 */
+	async searchGitlab(query: string): Promise<Array<IssueChoice>> {
+		this.latestQuery = query;
+		if (query.trim().length < MIN_SEARCH_LENGTH) {
+			return [];
+		}
+
+		await new Promise((resolve) => window.setTimeout(resolve, SEARCH_DELAY_MS));
+		if (query !== this.latestQuery) {
+			return [];
+		}
+
+		try {
+			const issues = await new GitlabLoader(this.app, this.settings).searchIssues(query.trim(), SEARCH_LIMIT);
+			return issues.map(choiceFromIssue);
+		} catch (error) {
+			logger(`Could not search GitLab issues: ${error.message}`);
+			return [];
+		}
+	}
+
+	/** The text to insert for an issue into the note at `sourcePath`. */
+	format(choice: IssueChoice, sourcePath: string): string {
+		const noteLink = choice.file ? this.app.fileManager.generateMarkdownLink(choice.file, sourcePath) : null;
+		return formatIssueLink(choice, this.settings.issueLinkFormat, this.settings.defaultProject, noteLink);
+	}
+}
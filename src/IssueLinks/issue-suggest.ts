@@ -0,0 +1,55 @@
+import { App, Editor, EditorPosition, EditorSuggest, EditorSuggestContext, EditorSuggestTriggerInfo } from "obsidian";
+import { GitlabIssuesSettings } from "../SettingsTab/settings-types";
+import { getFullReference, IssueChoice } from "./issue-links";
+import IssueSearch from "./issue-search";
+
+/** Longer text after the prefix is no longer taken for a search, e.g. when the prefix was typed on purpose. */
+const MAX_QUERY_LENGTH = 50;
+
+/** Suggests issues to link while typing the issue suggest prefix, e.g. `gl#login`. */
+export class IssueSuggest extends EditorSuggest<IssueChoice> {
+	constructor(app: App, private settings: GitlabIssuesSettings, private issueSearch: IssueSearch) {
+		super(app);
+		this.limit = 20;
+	}
+
+	onTrigger(cursor: EditorPosition, editor: Editor): EditorSuggestTriggerInfo | null {
+		const prefix = this.settings.issueSuggestPrefix;
+		if (!prefix) {
+			return null;
+		}
+
+		const line = editor.getLine(cursor.line).slice(0, cursor.ch);
+		const start = line.lastIndexOf(prefix);
+		// The prefix has to start a word, so it is not taken from the middle of a URL or another word
+		if (start < 0 || (start > 0 && !/[\s([]/.test(line[start - 1]))) {
+			return null;
+		}
+
+		const query = line.slice(start + prefix.length);
+		if (query.startsWith(" ") || query.length > MAX_QUERY_LENGTH) {
+			return null;
+		}
+		return { start: { line: cursor.line, ch: start }, end: cursor, query };
+	}
+
+	getSuggestions(context: EditorSuggestContext): Promise<Array<IssueChoice>> {
+		return this.issueSearch.search(context.query);
+	}
+
+	renderSuggestion(choice: IssueChoice, el: HTMLElement) {
+		el.createDiv({ text: choice.title });
+		el.createEl("small", {
+			cls: "gitlab-issue-suggestion-reference",
+			text: choice.file ? getFullReference(choice) : `${getFullReference(choice)} • not synced`,
+		});
+	}
+
+	selectSuggestion(choice: IssueChoice) {
+		if (!this.context) {
+			return;
+		}
+		const { editor, start, end, file } = this.context;
+		editor.replaceRange(this.issueSearch.format(choice, file?.path ?? ""), start, end);
+	}
+}
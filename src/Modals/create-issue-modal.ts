@@ -0,0 +1,194 @@
+import { App, Editor, Modal, Notice, Setting, TFile } from "obsidian";
+import { getSettingsForItem } from "../GitlabLoader/connections";
+import GitlabApi from "../GitlabLoader/gitlab-api";
+import GitlabLoader from "../GitlabLoader/gitlab-loader";
+import { Issue, Project } from "../GitlabLoader/issue-types";
+import LabelLoader from "../GitlabLoader/label-loader";
+import { findUserId } from "../GitlabLoader/lookups";
+import { GitlabIssuesSettings } from "../SettingsTab/settings-types";
+import { logger } from "../utils/utils";
+
+interface NewIssue {
+	project: Project | null;
+	title: string;
+	description: string;
+	labels: string;
+	assignee: string;
+	dueDate: string;
+}
+
+/**
+ * Creates a GitLab issue from the current note: the title defaults to the selection's first line or
+ * the note's first heading and the description to the selection, which is then replaced by a link
+ * to the newly written issue note.
+ */
+export class CreateIssueModal extends Modal {
+	private newIssue: NewIssue;
+	private isSubmitting = false;
+
+	constructor(
+		app: App,
+		private settings: GitlabIssuesSettings,
+		private editor: Editor,
+		private file: TFile | null,
+		private labelLoader: LabelLoader | null = null
+	) {
+		super(app);
+
+		const selection = editor.getSelection();
+		this.newIssue = {
+			project: null,
+			title: this.getDefaultTitle(selection),
+			description: selection,
+			labels: "",
+			assignee: "",
+			dueDate: "",
+		};
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		this.titleEl.setText("Create GitLab issue");
+
+		new Setting(contentEl)
+			.setName("Project")
+			.addDropdown((dropdown) => {
+				dropdown.addOption("", "Loading projects...");
+				this.loadProjects()
+					.then((projects) => {
+						// Projects of different connections may share an id, their web URL is unique
+						dropdown.selectEl.empty();
+						projects.forEach((project) =>
+							dropdown.addOption(project.web_url, project.name_with_namespace)
+						);
+						dropdown.onChange((value) =>
+							(this.newIssue.project = projects.find((project) => project.web_url === value) ?? null));
+						this.newIssue.project = projects[0] ?? null;
+						dropdown.setValue(this.newIssue.project?.web_url ?? "");
+					})
+					.catch((error) => {
+						dropdown.selectEl.empty();
+						dropdown.addOption("", "Could not load projects");
+						logger(error.message);
+					});
+			});
+
+		new Setting(contentEl)
+			.setName("Title")
+			.addText((text) => text
+				.setValue(this.newIssue.title)
+				.onChange((value) => (this.newIssue.title = value)));
+
+		new Setting(contentEl)
+			.setName("Description")
+			.addTextArea((textArea) => textArea
+				.setValue(this.newIssue.description)
+				.onChange((value) => (this.newIssue.description = value)));
+
+		new Setting(contentEl)
+			.setName("Labels")
+			.setDesc("Comma separated")
+			.addText((text) => text
+				.setPlaceholder("bug, frontend")
+				.onChange((value) => (this.newIssue.labels = value)));
+
+		new Setting(contentEl)
+			.setName("Assignee")
+			.setDesc("GitLab username")
+			.addText((text) => text
+				.onChange((value) => (this.newIssue.assignee = value.trim().replace(/^@/, ""))));
+
+		new Setting(contentEl)
+			.setName("Due date")
+			.addText((text) => {
+				text.inputEl.type = "date";
+				text.onChange((value) => (this.newIssue.dueDate = value));
+			});
+
+		new Setting(contentEl)
+			.addButton((button) => button
+				.setButtonText("Create")
+				.setCta()
+				.onClick(() => this.submit()));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private getDefaultTitle(selection: string): string {
+		const firstLine = selection.split("\n").find((line) => line.trim().length > 0);
+		if (firstLine) {
+			return firstLine.replace(/^#+\s*/, "").trim();
+		}
+
+		const heading = this.file
+			? this.app.metadataCache.getFileCache(this.file)?.headings?.[0]?.heading
+			: undefined;
+		return heading ?? this.file?.basename ?? "";
+	}
+
+	private loadProjects(): Promise<Array<Project>> {
+		return new GitlabLoader(this.app, this.settings).loadProjects();
+	}
+
+	private async submit() {
+		if (this.isSubmitting) {
+			return;
+		}
+		const project = this.newIssue.project;
+		if (!project || !this.newIssue.title.trim()) {
+			new Notice("A project and a title are required");
+			return;
+		}
+
+		this.isSubmitting = true;
+		try {
+			// Projects may come from different connections, each issue is created through its project's
+			const settings = getSettingsForItem(this.settings, project.connection, project.web_url);
+			const issue = await GitlabApi.create<Issue>(
+				`${settings.gitlabApiUrl()}/projects/${project.id}/issues`,
+				settings.gitlabToken,
+				await this.buildRequestBody(settings)
+			);
+
+			// Written like a sync would, to the folder and with the template of the source the project belongs to
+			const issueFile = await new GitlabLoader(this.app, this.settings, undefined, this.labelLoader)
+				.saveIssueNote({ ...issue, connection: project.connection }, true);
+			if (!issueFile) {
+				throw new Error(`No note was written for ${issue.title}`);
+			}
+			this.editor.replaceSelection(
+				this.app.fileManager.generateMarkdownLink(issueFile, this.file?.path ?? "")
+			);
+
+			new Notice(`Created GitLab issue ${issue.title}`);
+			this.close();
+		} catch (error) {
+			new Notice(`Could not create GitLab issue: ${error.message}`);
+			logger(error.message);
+		} finally {
+			this.isSubmitting = false;
+		}
+	}
+
+	private async buildRequestBody(settings: GitlabIssuesSettings): Promise<Record<string, unknown>> {
+		const body: Record<string, unknown> = {
+			title: this.newIssue.title.trim(),
+			description: this.newIssue.description,
+		};
+
+		if (this.newIssue.labels.trim()) {
+			body.labels = this.newIssue.labels;
+		}
+		if (this.newIssue.assignee) {
+			body.assignee_ids = [await findUserId(settings, this.newIssue.assignee)];
+		}
+		if (this.newIssue.dueDate) {
+			body.due_date = this.newIssue.dueDate;
+		}
+
+		return body;
+	}
+}
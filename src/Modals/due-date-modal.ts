@@ -0,0 +1,47 @@
+import { App, Modal, Setting } from "obsidian";
+
+/** Asks for a new due date, where clearing it removes the due date. */
+export class DueDateModal extends Modal {
+	private dueDate: string;
+
+	constructor(
+		app: App,
+		currentDueDate: string | null,
+		private onSubmit: (dueDate: string | null) => void
+	) {
+		super(app);
+		this.dueDate = currentDueDate ?? "";
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		this.titleEl.setText("Set due date");
+
+		new Setting(contentEl)
+			.setName("Due date")
+			.addText((text) => {
+				text.inputEl.type = "date";
+				text.setValue(this.dueDate)
+					.onChange((value) => (this.dueDate = value));
+			});
+
+		new Setting(contentEl)
+			.addButton((button) => button
+				.setButtonText("Clear")
+				.onClick(() => this.submit(null)))
+			.addButton((button) => button
+				.setButtonText("Save")
+				.setCta()
+				.onClick(() => this.submit(this.dueDate || null)));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private submit(dueDate: string | null) {
+		this.onSubmit(dueDate);
+		this.close();
+	}
+}
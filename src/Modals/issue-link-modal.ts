@@ -0,0 +1,58 @@
+import { App, Editor, FuzzyMatch, FuzzySuggestModal, TFile } from "obsidian";
+import { getFullReference, IssueChoice, mergeChoices } from "../IssueLinks/issue-links";
+import IssueSearch from "../IssueLinks/issue-search";
+
+/**
+ * Picks an issue to link at the cursor. Synced issues are listed straight away, the issues GitLab
+ * finds for the query are added when the search returns.
+ */
+export class IssueLinkModal extends FuzzySuggestModal<IssueChoice> {
+	private choices: Array<IssueChoice>;
+	private searchedQuery = "";
+
+	constructor(
+		app: App,
+		private issueSearch: IssueSearch,
+		private editor: Editor,
+		private file: TFile | null
+	) {
+		super(app);
+		this.setPlaceholder("Search GitLab issues");
+		this.choices = issueSearch.getSyncedChoices();
+		this.inputEl.addEventListener("input", () => this.searchGitlab(this.inputEl.value));
+	}
+
+	getItems(): Array<IssueChoice> {
+		return this.choices;
+	}
+
+	getItemText(choice: IssueChoice): string {
+		return `${getFullReference(choice)} ${choice.title}`;
+	}
+
+	renderSuggestion(match: FuzzyMatch<IssueChoice>, el: HTMLElement) {
+		super.renderSuggestion(match, el);
+		if (!match.item.file) {
+			el.createEl("small", { cls: "gitlab-issue-suggestion-reference", text: " • not synced" });
+		}
+	}
+
+	onChooseItem(choice: IssueChoice) {
+		this.editor.replaceSelection(this.issueSearch.format(choice, this.file?.path ?? ""));
+	}
+
+	private async searchGitlab(query: string) {
+		// Showing the results dispatches another input event for the same query
+		if (query === this.searchedQuery) {
+			return;
+		}
+		this.searchedQuery = query;
+
+		const found = await this.issueSearch.searchGitlab(query);
+		if (found.length === 0 || query !== this.inputEl.value) {
+			return;
+		}
+		this.choices = mergeChoices(this.choices, found);
+		this.inputEl.dispatchEvent(new Event("input"));
+	}
+}
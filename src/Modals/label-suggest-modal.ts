@@ -0,0 +1,41 @@
+import { App, FuzzySuggestModal } from "obsidian";
+import { Label } from "../GitlabLoader/issue-types";
+
+export interface LabelChoice {
+	label: Label;
+	/** Whether choosing the label adds it to the issue or removes it. */
+	add: boolean;
+}
+
+/** Picks a project label to add to an issue, or one of its labels to remove. */
+export class LabelSuggestModal extends FuzzySuggestModal<LabelChoice> {
+	private choices: Array<LabelChoice>;
+
+	constructor(
+		app: App,
+		labels: Array<Label>,
+		issueLabels: Array<string>,
+		private onChoose: (choice: LabelChoice) => void
+	) {
+		super(app);
+		this.setPlaceholder("Add or remove a label");
+
+		// The labels of the issue come first, to make removing them quick
+		this.choices = [
+			...labels.filter((label) => issueLabels.includes(label.name)).map((label) => ({ label, add: false })),
+			...labels.filter((label) => !issueLabels.includes(label.name)).map((label) => ({ label, add: true })),
+		];
+	}
+
+	getItems(): Array<LabelChoice> {
+		return this.choices;
+	}
+
+	getItemText(choice: LabelChoice): string {
+		return `${choice.add ? "Add" : "Remove"} ${choice.label.name}`;
+	}
+
+	onChooseItem(choice: LabelChoice) {
+		this.onChoose(choice);
+	}
+}
@@ -0,0 +1,57 @@
+import { App, Modal } from "obsidian";
+import { formatSyncError, SourceReport, summarizeReport, SyncReport } from "../GitlabLoader/sync-report";
+
+const COLUMNS: Array<{ title: string; key: keyof SourceReport }> = [
+	{ title: "Source", key: "source" },
+	{ title: "Fetched", key: "fetched" },
+	{ title: "Created", key: "created" },
+	{ title: "Updated", key: "updated" },
+	{ title: "Unchanged", key: "unchanged" },
+	{ title: "Purged", key: "purged" },
+];
+
+/** Shows what the last sync did per source and every error it ran into. */
+export class SyncReportModal extends Modal {
+	constructor(app: App, private report: SyncReport | null) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const report = this.report;
+
+		this.titleEl.setText("Last GitLab sync");
+
+		if (!report) {
+			contentEl.createEl("p", { text: "No sync has run since Obsidian started." });
+			return;
+		}
+
+		contentEl.addClass("gitlab-sync-report");
+		contentEl.createEl("p", {
+			text: `Finished ${new Date(report.finishedAt).toLocaleString()}: ${summarizeReport(report)}.`,
+		});
+
+		if (report.sources.length > 0) {
+			const table = contentEl.createEl("table");
+			const headerRow = table.createEl("thead").createEl("tr");
+			COLUMNS.forEach((column) => headerRow.createEl("th", { text: column.title }));
+
+			const body = table.createEl("tbody");
+			report.sources.forEach((source) => {
+				const row = body.createEl("tr");
+				COLUMNS.forEach((column) => row.createEl("td", { text: String(source[column.key]) }));
+			});
+		}
+
+		if (report.errors.length > 0) {
+			contentEl.createEl("h4", { text: "Errors" });
+			const list = contentEl.createEl("ul", { cls: "gitlab-sync-report-errors" });
+			report.errors.forEach((error) => list.createEl("li", { text: formatSyncError(error) }));
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
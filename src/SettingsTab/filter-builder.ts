@@ -0,0 +1,176 @@
+/** The issue list parameters the filter builder edits, see https://docs.gitlab.com/ee/api/issues.html#list-issues */
+export interface IssueFilter {
+	state: string;
+	/** Issues must have all of these labels. */
+	labels: string[];
+	/** Issues must have none of these labels. */
+	notLabels: string[];
+	milestone: string;
+	assigneeUsername: string;
+	authorUsername: string;
+	scope: string;
+	dueDate: string;
+	search: string;
+	confidential: string;
+	iterationTitle: string;
+	orderBy: string;
+	sort: string;
+	/** Parameters the builder has no control for, kept as they are. */
+	other: string[];
+}
+
+type TextField = Exclude<keyof IssueFilter, "labels" | "notLabels" | "other">;
+
+const TEXT_PARAMETERS: Record<TextField, string> = {
+	state: "state",
+	milestone: "milestone",
+	assigneeUsername: "assignee_username",
+	authorUsername: "author_username",
+	scope: "scope",
+	dueDate: "due_date",
+	search: "search",
+	confidential: "confidential",
+	iterationTitle: "iteration_title",
+	orderBy: "order_by",
+	sort: "sort",
+};
+
+const LABELS_PARAMETER = "labels";
+const NOT_LABELS_PARAMETER = "not[labels]";
+
+export const FILTER_OPTIONS = {
+	state: { "": "Any", opened: "Open", closed: "Closed" },
+	scope: { "": "Default", created_by_me: "Created by me", assigned_to_me: "Assigned to me", all: "All" },
+	dueDate: {
+		"": "Any",
+		"0": "No due date",
+		any: "Has a due date",
+		today: "Today",
+		tomorrow: "Tomorrow",
+		overdue: "Overdue",
+		week: "This week",
+		month: "This month",
+		next_month_and_previous_two_weeks: "Next month and previous two weeks",
+	},
+	confidential: { "": "Any", true: "Only confidential", false: "Not confidential" },
+	orderBy: {
+		"": "Default",
+		created_at: "Created",
+		updated_at: "Updated",
+		due_date: "Due date",
+		priority: "Priority",
+		label_priority: "Label priority",
+		milestone_due: "Milestone due date",
+		popularity: "Popularity",
+		relative_position: "Manual",
+		title: "Title",
+		weight: "Weight",
+	},
+	sort: { "": "Default", asc: "Ascending", desc: "Descending" },
+};
+
+function toList(value: string): string[] {
+	return value.split(",").map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
+/** Decodes a query string part, keeping it as written when it is not valid percent-encoding. */
+function decodePart(part: string): string {
+	try {
+		return decodeURIComponent(part);
+	} catch (e) {
+		return part;
+	}
+}
+
+/** Encodes a parameter value, leaving the commas that separate list values readable. */
+function encodeValue(value: string): string {
+	return value.split(",").map((item) => encodeURIComponent(item)).join(",");
+}
+
+/**
+ * Encodes each parameter of a query string on its own, so `&`, `=`, `+` and `#` inside values reach Gitlab as
+ * written. Parts that are already encoded are decoded first, so filters written either way end up the same.
+ */
+export function encodeQuery(query: string): string {
+	return query
+		.split("&")
+		.filter((parameter) => parameter.length > 0)
+		.map((parameter) => {
+			const separator = parameter.indexOf("=");
+			if (separator === -1) {
+				return encodeURI(decodePart(parameter));
+			}
+			const key = encodeURI(decodePart(parameter.slice(0, separator)));
+			return `${key}=${encodeValue(decodePart(parameter.slice(separator + 1)))}`;
+		})
+		.join("&");
+}
+
+export function emptyFilter(): IssueFilter {
+	return {
+		state: "",
+		labels: [],
+		notLabels: [],
+		milestone: "",
+		assigneeUsername: "",
+		authorUsername: "",
+		scope: "",
+		dueDate: "",
+		search: "",
+		confidential: "",
+		iterationTitle: "",
+		orderBy: "",
+		sort: "",
+		other: [],
+	};
+}
+
+/**
+ * Parses a filter query string such as `state=opened&labels=bug,ui`. Values are decoded for the controls,
+ * and parameters without a control end up in `other` as written.
+ */
+export function parseFilter(filterString: string): IssueFilter {
+	const filter = emptyFilter();
+	const fields = Object.entries(TEXT_PARAMETERS) as Array<[TextField, string]>;
+
+	filterString
+		.split("&")
+		.filter((parameter) => parameter.length > 0)
+		.forEach((parameter) => {
+			const separator = parameter.indexOf("=");
+			const key = separator === -1 ? parameter : parameter.slice(0, separator);
+			const value = separator === -1 ? "" : decodePart(parameter.slice(separator + 1));
+			const field = fields.find(([, name]) => name === key)?.[0];
+
+			if (key === LABELS_PARAMETER) {
+				filter.labels.push(...toList(value));
+			} else if (key === NOT_LABELS_PARAMETER) {
+				filter.notLabels.push(...toList(value));
+			} else if (field && !filter[field]) {
+				filter[field] = value;
+			} else {
+				filter.other.push(parameter);
+			}
+		});
+
+	return filter;
+}
+
+/** Serializes a filter back into an encoded query string, leaving out empty values. */
+export function serializeFilter(filter: IssueFilter): string {
+	const { state, ...otherFields } = TEXT_PARAMETERS;
+	const parameters: Array<[string, string]> = [
+		[state, filter.state],
+		[LABELS_PARAMETER, filter.labels.join(",")],
+		[NOT_LABELS_PARAMETER, filter.notLabels.join(",")],
+		...(Object.entries(otherFields) as Array<[TextField, string]>)
+			.map(([field, name]): [string, string] => [name, filter[field]]),
+	];
+
+	return [
+		...parameters
+			.filter(([, value]) => value.trim().length > 0)
+			.map(([name, value]) => `${name}=${encodeValue(value.trim())}`),
+		...filter.other.map(encodeQuery),
+	].join("&");
+}
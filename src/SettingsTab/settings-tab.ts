@@ -1,11 +1,16 @@
-import {App, normalizePath, PluginSettingTab, Setting} from "obsidian";
+import {App, debounce, normalizePath, Notice, PluginSettingTab, Setting, TextComponent} from "obsidian";
 import GitlabIssuesPlugin from "../main";
 import {settings} from "./settings";
-import {GitlabIssuesLevel, GitlabRefreshInterval} from "./settings-types";
+import {FILTER_OPTIONS, IssueFilter, parseFilter, serializeFilter} from "./filter-builder";
+import {DEFAULT_CONNECTION_NAME, getConnections, isConnectionUsed, renameConnection} from "../GitlabLoader/connections";
+import {createSource, resolveSourceName} from "../GitlabLoader/sources";
+import {BoardGrouping, FolderLayout, GitlabConnection, GitlabFullSyncInterval, GitlabSource, GitlabIssuesLevel, GitlabRefreshInterval, IssueLinkFormat, PurgeMode} from "./settings-types";
 
 
 export class GitlabIssuesSettingTab extends PluginSettingTab {
 	plugin: GitlabIssuesPlugin;
+	private filterText: TextComponent | null = null;
+	private filterBuilderEl: HTMLElement | null = null;
 
 	constructor(app: App, plugin: GitlabIssuesPlugin) {
 		super(app, plugin);
@@ -15,7 +20,7 @@ export class GitlabIssuesSettingTab extends PluginSettingTab {
 	display(): void {
 		const {containerEl} = this;
 
-		const {settingInputs, dropdowns, checkBoxInputs, gitlabDocumentation, getGitlabIssuesLevel, title} = settings;
+		const {settingInputs, numberInputs, dropdowns, checkBoxInputs, gitlabDocumentation, getGitlabIssuesLevel, title} = settings;
 
 		containerEl.empty();
 		containerEl.createEl('h2', {text: title});
@@ -28,19 +33,50 @@ export class GitlabIssuesSettingTab extends PluginSettingTab {
 				return this.plugin.settings[setting.value];
 			};
 
+			new Setting(containerEl)
+				.setName(setting.title)
+				.setDesc(setting.description)
+				.addText(text => {
+					if (setting.value === "filter") {
+						this.filterText = text;
+					}
+					text
+						.setPlaceholder(setting.placeholder ?? "")
+						.setValue(handleSetValue())
+						.onChange(async (value) => {
+							if (setting.modifier === "normalizePath") {
+								this.plugin.settings[setting.value] = normalizePath(value);
+							} else {
+								this.plugin.settings[setting.value] = value;
+							}
+							await this.plugin.saveSettings();
+							if (setting.value === "filter") {
+								this.displayFilterBuilder();
+							}
+						});
+				});
+
+			if (setting.value === "filter") {
+				const details = containerEl.createEl('details');
+				details.createEl('summary', {text: 'Filter Builder'});
+				this.filterBuilderEl = details.createDiv();
+				this.displayFilterBuilder();
+			}
+		});
+
+		numberInputs.forEach((setting) => {
 			new Setting(containerEl)
 				.setName(setting.title)
 				.setDesc(setting.description)
 				.addText(text => text
 					.setPlaceholder(setting.placeholder ?? "")
-					.setValue(handleSetValue())
+					.setValue(String(this.plugin.settings[setting.value]))
 					.onChange(async (value) => {
-						if (setting.modifier === "normalizePath") {
-							this.plugin.settings[setting.value] = normalizePath(value);
-						} else {
-							this.plugin.settings[setting.value] = value;
+						const parsedValue = parseInt(value);
+						if (!isNaN(parsedValue) && parsedValue >= setting.min) {
+							this.plugin.settings[setting.value] = parsedValue;
+							await this.plugin.saveSettings();
 						}
-						await this.plugin.saveSettings();
 					}));
 		});
 
@@ -56,6 +92,16 @@ export class GitlabIssuesSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						if (currentValue === 'gitlabIssuesLevel') {
 							this.plugin.settings[currentValue] = value as GitlabIssuesLevel;
+						} else if (currentValue === 'fullSyncInterval') {
+							this.plugin.settings[currentValue] = value as GitlabFullSyncInterval;
+						} else if (currentValue === 'folderLayout') {
+							this.plugin.settings[currentValue] = value as FolderLayout;
+						} else if (currentValue === 'purgeMode') {
+							this.plugin.settings[currentValue] = value as PurgeMode;
+						} else if (currentValue === 'boardGrouping') {
+							this.plugin.settings[currentValue] = value as BoardGrouping;
+						} else if (currentValue === 'issueLinkFormat') {
+							this.plugin.settings[currentValue] = value as IssueLinkFormat;
 						} else {
 							this.plugin.settings[currentValue] = value as GitlabRefreshInterval;
 							this.plugin.scheduleAutomaticRefresh();
@@ -65,34 +111,17 @@ export class GitlabIssuesSettingTab extends PluginSettingTab {
 					}));
 		});
 
-		if (this.plugin.settings.gitlabIssuesLevel !== "personal") {
+		if (this.plugin.settings.gitlabIssuesLevel === "custom") {
+			this.displaySources(containerEl);
+		} else if (this.plugin.settings.gitlabIssuesLevel !== "personal") {
 			const gitlabIssuesLevelIdObject = getGitlabIssuesLevel(this.plugin.settings.gitlabIssuesLevel);
 			const descriptionDocumentFragment = document.createDocumentFragment();
-			
-			if (this.plugin.settings.gitlabIssuesLevel === "custom") {
-				// For custom, show description and both links
-				descriptionDocumentFragment.appendText("Enter multiple sources separated by commas. Use G: for groups and P: for projects (e.g., 'G:111, P:234, P:6699'). ");
-				
-				descriptionDocumentFragment.createEl('a', {
-					href: gitlabIssuesLevelIdObject.projectUrl!,
-					text: 'Find Project IDs',
-					title: `Goto ${gitlabIssuesLevelIdObject.projectUrl!}`
-				});
-				descriptionDocumentFragment.appendText(' | ');
-				
-				descriptionDocumentFragment.createEl('a', {
-					href: gitlabIssuesLevelIdObject.groupUrl!,
-					text: 'Find Group IDs',
-					title: `Goto ${gitlabIssuesLevelIdObject.groupUrl!}`
-				});
-			} else {
-				// For project/group, show single link as before
-				descriptionDocumentFragment.createEl('a', {
-					href: gitlabIssuesLevelIdObject.url,
-					text: `Find your ${gitlabIssuesLevelIdObject.title} Id.`,
-					title: `Goto ${gitlabIssuesLevelIdObject.url}`
-				});
-			}
+
+			descriptionDocumentFragment.createEl('a', {
+				href: gitlabIssuesLevelIdObject.url,
+				text: `Find your ${gitlabIssuesLevelIdObject.title} Id.`,
+				title: `Goto ${gitlabIssuesLevelIdObject.url}`
+			});
 
 			new Setting(containerEl)
 				.setName(`Set Gitlab ${gitlabIssuesLevelIdObject.title} Id`)
@@ -104,6 +133,21 @@ export class GitlabIssuesSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					}));
 		}
+		if (this.plugin.settings.gitlabIssuesLevel !== "custom") {
+			new Setting(containerEl)
+				.setName("Connection")
+				.setDesc("The Gitlab instance the issues are loaded from.")
+				.addDropdown(dropdown => {
+					getConnections(this.plugin.settings).forEach((connection) =>
+						dropdown.addOption(connection.name === DEFAULT_CONNECTION_NAME ? "" : connection.name, connection.name));
+					dropdown
+						.setValue(this.plugin.settings.connectionName)
+						.onChange(async (value) => {
+							this.plugin.settings.connectionName = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		}
 		checkBoxInputs.forEach(checkboxSetting => {
 			new Setting(containerEl)
 				.setName(checkboxSetting.title)
@@ -115,10 +159,235 @@ export class GitlabIssuesSettingTab extends PluginSettingTab {
 					}));
 		});
 
+		this.displayConnections(containerEl);
+
 		containerEl.createEl('h3', {text: 'More Information'});
 		containerEl.createEl('a', {
 			text: gitlabDocumentation.title,
 			href: gitlabDocumentation.url
 		});
 	}
+
+	private displayConnections(containerEl: HTMLElement) {
+		containerEl.createEl('h3', {text: 'Additional Connections'});
+		containerEl.createEl('p', {
+			text: 'Other Gitlab instances to load issues from. Choose one as the connection of the scope or of a source above.'
+		});
+
+		this.plugin.settings.connections.forEach((connection, index) => {
+			const updateConnection = async (change: Partial<GitlabConnection>) => {
+				this.plugin.settings.connections[index] = {...this.plugin.settings.connections[index], ...change};
+				await this.plugin.saveSettings();
+			};
+
+			new Setting(containerEl)
+				.setName(connection.name || "New connection")
+				.addText(text => {
+					text
+						.setPlaceholder("Name")
+						.setValue(connection.name);
+					// Renamed once editing is done, taking the scope and sources that use the connection along
+					text.inputEl.addEventListener("blur", async () => {
+						const previousName = this.plugin.settings.connections[index].name;
+						const name = text.getValue().trim();
+						if (name === previousName) {
+							return;
+						}
+						if (!name && isConnectionUsed(this.plugin.settings, previousName)) {
+							new Notice(`The connection "${previousName}" is in use and needs a name`);
+							text.setValue(previousName);
+							return;
+						}
+						const {connectionName, sources} = renameConnection(this.plugin.settings, previousName, name);
+						this.plugin.settings.connectionName = connectionName;
+						this.plugin.settings.sources = sources;
+						await updateConnection({name});
+						this.display();
+					});
+				})
+				.addText(text => text
+					.setPlaceholder("https://gitlab.example.com")
+					.setValue(connection.url)
+					.onChange((value) => updateConnection({url: value.trim()})))
+				.addText(text => {
+					text.inputEl.type = "password";
+					text
+						.setPlaceholder("Personal Access Token")
+						.setValue(connection.token)
+						.onChange((value) => updateConnection({token: value.trim()}));
+				})
+				.addText(text => text
+					.setPlaceholder("CA / proxy note")
+					.setValue(connection.note)
+					.onChange((value) => updateConnection({note: value})))
+				.addExtraButton(button => button
+					.setIcon("trash")
+					.setTooltip("Remove connection")
+					.onClick(async () => {
+						const name = this.plugin.settings.connections[index].name;
+						if (isConnectionUsed(this.plugin.settings, name)) {
+							new Notice(`The connection "${name}" is used by the scope or a source, choose another connection there first`);
+							return;
+						}
+						this.plugin.settings.connections = this.plugin.settings.connections.filter((_, i) => i !== index);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText("Add connection")
+				.onClick(async () => {
+					this.plugin.settings.connections = [
+						...this.plugin.settings.connections,
+						{name: "", url: "", token: "", note: ""},
+					];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	private displaySources(containerEl: HTMLElement) {
+		containerEl.createEl('h3', {text: 'Sources'});
+		containerEl.createEl('p', {
+			text: 'Projects and groups can be entered by path (e.g. "my-group/my-project") or numeric ID. ' +
+				'Leave an override empty to use the setting above.'
+		});
+
+		this.plugin.settings.sources.forEach((source, index) => {
+			const updateSource = async (change: Partial<GitlabSource>) => {
+				this.plugin.settings.sources[index] = {...this.plugin.settings.sources[index], ...change};
+				await this.plugin.saveSettings();
+			};
+
+			const sourceSetting = new Setting(containerEl)
+				.setName(source.name || (source.type === "personal" ? "Personal issues" : source.id || "New source"));
+
+			const validate = debounce(() => {
+				const current = this.plugin.settings.sources[index];
+				if (current.type !== "personal" && !current.id) {
+					return;
+				}
+				resolveSourceName(this.plugin.settings, current)
+					.then(async (name) => {
+						sourceSetting.setName(name);
+						sourceSetting.setDesc("");
+						await updateSource({name});
+					})
+					.catch(async () => {
+						sourceSetting.setDesc(`Could not find this ${current.type} in Gitlab.`);
+						await updateSource({name: ""});
+					});
+			}, 1000, true);
+
+			sourceSetting
+				.addDropdown(dropdown => dropdown
+					.addOptions({project: "Project", group: "Group", personal: "Personal"})
+					.setValue(source.type)
+					.onChange(async (value) => {
+						await updateSource({type: value as GitlabSource["type"], name: ""});
+						validate();
+					}))
+				.addText(text => text
+					.setPlaceholder("Path or ID")
+					.setValue(source.id)
+					.onChange(async (value) => {
+						await updateSource({id: value.trim(), name: ""});
+						validate();
+					}))
+				.addDropdown(dropdown => {
+					getConnections(this.plugin.settings).forEach((connection) =>
+						dropdown.addOption(connection.name === DEFAULT_CONNECTION_NAME ? "" : connection.name, connection.name));
+					dropdown
+						.setValue(source.connection)
+						.onChange(async (value) => {
+							await updateSource({connection: value});
+							validate();
+						});
+				})
+				.addExtraButton(button => button
+					.setIcon("trash")
+					.setTooltip("Remove source")
+					.onClick(async () => {
+						this.plugin.settings.sources = this.plugin.settings.sources.filter((_, i) => i !== index);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+
+			new Setting(containerEl)
+				.setDesc("Overrides")
+				.addText(text => text
+					.setPlaceholder("Issues Filter")
+					.setValue(source.filter)
+					.onChange((value) => updateSource({filter: value.trim()})))
+				.addText(text => text
+					.setPlaceholder("Output Folder")
+					.setValue(source.outputDir)
+					.onChange((value) => updateSource({outputDir: value.trim() ? normalizePath(value) : ""})))
+				.addText(text => text
+					.setPlaceholder("Template File")
+					.setValue(source.templateFile)
+					.onChange((value) => updateSource({templateFile: value.trim()})));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText("Add source")
+				.onClick(async () => {
+					this.plugin.settings.sources = [...this.plugin.settings.sources, createSource()];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	/** Typed controls for the issues filter, kept in sync with its text field in both directions. */
+	private displayFilterBuilder() {
+		const builderEl = this.filterBuilderEl;
+		if (!builderEl) {
+			return;
+		}
+		builderEl.empty();
+
+		const filter = parseFilter(this.plugin.settings.filter);
+		const updateFilter = async (change: Partial<IssueFilter>) => {
+			this.plugin.settings.filter = serializeFilter({...parseFilter(this.plugin.settings.filter), ...change});
+			this.filterText?.setValue(this.plugin.settings.filter);
+			await this.plugin.saveSettings();
+		};
+		const addDropdown = (name: string, field: keyof typeof FILTER_OPTIONS) => new Setting(builderEl)
+			.setName(name)
+			.addDropdown(dropdown => dropdown
+				.addOptions(FILTER_OPTIONS[field])
+				.setValue(filter[field])
+				.onChange((value) => updateFilter({[field]: value})));
+		const addText = (name: string, field: "milestone" | "assigneeUsername" | "authorUsername" | "search" | "iterationTitle", description = "") => new Setting(builderEl)
+			.setName(name)
+			.setDesc(description)
+			.addText(text => text
+				.setValue(filter[field])
+				.onChange((value) => updateFilter({[field]: value})));
+		const addLabels = (name: string, field: "labels" | "notLabels") => new Setting(builderEl)
+			.setName(name)
+			.setDesc("Comma separated")
+			.addText(text => text
+				.setValue(filter[field].join(", "))
+				.onChange((value) => updateFilter({
+					[field]: value.split(",").map((label) => label.trim()).filter((label) => label.length > 0)
+				})));
+
+		addDropdown("State", "state");
+		addLabels("With all of these labels", "labels");
+		addLabels("Without any of these labels", "notLabels");
+		addText("Milestone", "milestone", 'Milestone title, or "None" / "Any"');
+		addText("Assignee", "assigneeUsername", "Gitlab username");
+		addText("Author", "authorUsername", "Gitlab username");
+		addDropdown("Scope", "scope");
+		addDropdown("Due date", "dueDate");
+		addText("Search", "search", "Searches titles and descriptions");
+		addDropdown("Confidential", "confidential");
+		addText("Iteration", "iterationTitle", "Iteration title");
+		addDropdown("Order by", "orderBy");
+		addDropdown("Sort", "sort");
+	}
 }
@@ -1,18 +1,75 @@
 export type GitlabIssuesLevel = 'personal' | 'project' | 'group' | 'custom';
 export type GitlabRefreshInterval = "15" | "30" | "45" |"60" | "120" | "off";
+export type FolderLayout = "flat" | "project" | "group-project" | "milestone" | "template";
+export type PurgeMode = "delete" | "archive" | "trash";
+export type BoardGrouping = "state" | "labels" | "assignee" | "milestone";
+export type IssueLinkFormat = "wikilink" | "url" | "reference";
+export type GitlabFullSyncInterval = "1" | "6" | "12" | "24" | "168";
+
+export interface SyncCursor {
+	updatedAfter: string;
+	lastFullSync: string;
+	/** The issue list URL the cursor was recorded for, a changed filter or scope starts over with a full sync. */
+	url?: string;
+}
+
+export interface GitlabConnection {
+	name: string;
+	url: string;
+	token: string;
+	/** Free text, e.g. which CA certificate or proxy the instance needs. */
+	note: string;
+}
+
+/** A project, group or the user's own issues, loaded when the scope is custom. Empty overrides use the global setting. */
+export interface GitlabSource {
+	type: Exclude<GitlabIssuesLevel, "custom">;
+	/** Path or numeric id of the project or group, empty for personal sources. */
+	id: string;
+	/** Name found by the last validation lookup, for display only. */
+	name: string;
+	connection: string;
+	filter: string;
+	outputDir: string;
+	templateFile: string;
+}
 
 export interface GitlabIssuesSettings {
 	gitlabUrl: string;
 	gitlabToken: string;
+	connections: GitlabConnection[];
+	connectionName: string;
+	defaultProject: string;
 	gitlabIssuesLevel: GitlabIssuesLevel;
 	gitlabAppId: string;
+	sources: GitlabSource[];
 	templateFile: string;
 	outputDir: string;
 	filter: string;
 	showIcon: boolean;
 	purgeIssues: boolean;
+	purgeMode: PurgeMode;
+	archiveDir: string;
 	refreshOnStartup: boolean;
 	intervalOfRefresh: GitlabRefreshInterval;
+	maxPages: number;
+	cardCacheMinutes: number;
+	incrementalSync: boolean;
+	fullSyncInterval: GitlabFullSyncInterval;
+	syncState: Record<string, SyncCursor>;
+	twoWaySync: boolean;
+	importNotes: boolean;
+	importMergeRequests: boolean;
+	mergeRequestOutputDir: string;
+	mergeRequestTemplateFile: string;
+	mergeRequestFilter: string;
+	filenameTemplate: string;
+	folderLayout: FolderLayout;
+	folderTemplate: string;
+	boardGrouping: BoardGrouping;
+	boardLabels: string;
+	issueLinkFormat: IssueLinkFormat;
+	issueSuggestPrefix: string;
 	gitlabApiUrl(): string;
 }
 
@@ -28,20 +85,25 @@ export interface Setting {
 	placeholder?: string;
 }
 export interface SettingInput extends Setting {
-	value: keyof Pick<GitlabIssuesSettings, "filter" | "gitlabUrl" | "gitlabToken" | "outputDir" | "templateFile">,
+	value: keyof Pick<GitlabIssuesSettings, "filter" | "gitlabUrl" | "gitlabToken" | "outputDir" | "templateFile" | "mergeRequestOutputDir" | "mergeRequestTemplateFile" | "mergeRequestFilter" | "filenameTemplate" | "folderTemplate" | "archiveDir" | "defaultProject" | "boardLabels" | "issueSuggestPrefix">,
 	modifier?: string
 }
+export interface SettingNumberInput extends Setting {
+	value: keyof Pick<GitlabIssuesSettings, "maxPages" | "cardCacheMinutes">,
+	min: number
+}
 export interface DropdownInputs extends Setting {
-	value: keyof Pick<GitlabIssuesSettings, "gitlabIssuesLevel" | "intervalOfRefresh">
+	value: keyof Pick<GitlabIssuesSettings, "gitlabIssuesLevel" | "intervalOfRefresh" | "fullSyncInterval" | "folderLayout" | "purgeMode" | "boardGrouping" | "issueLinkFormat">
 	options: Record<string, string>
 }
 export interface SettingCheckboxInput extends Omit<Setting, "description"> {
-	value: keyof Pick<GitlabIssuesSettings, "refreshOnStartup"| "purgeIssues"| 'showIcon'>
+	value: keyof Pick<GitlabIssuesSettings, "refreshOnStartup"| "purgeIssues"| 'showIcon' | 'incrementalSync' | 'twoWaySync' | 'importNotes' | 'importMergeRequests'>
 }
 
 export interface SettingsTab {
 	title: string,
 	settingInputs: SettingInput[],
+	numberInputs: SettingNumberInput[],
 	dropdowns: DropdownInputs[]
 	checkBoxInputs: SettingCheckboxInput[],
 	getGitlabIssuesLevel: (currentLevel: Omit<GitlabIssuesLevel, "personal">) => SettingOutLink;
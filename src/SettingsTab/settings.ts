@@ -3,15 +3,39 @@ import {GitlabIssuesSettings, SettingsTab} from "./settings-types";
 export const DEFAULT_SETTINGS: GitlabIssuesSettings = {
 	gitlabUrl: 'https://gitlab.com',
 	gitlabToken: '',
+	connections: [],
+	connectionName: '',
+	defaultProject: '',
 	gitlabIssuesLevel: 'personal',
 	gitlabAppId: '',
+	sources: [],
 	templateFile: '',
 	outputDir: '/Gitlab Issues/',
 	filter: 'due_date=month',
 	showIcon: false,
 	purgeIssues: true,
+	purgeMode: 'delete',
+	archiveDir: '/Gitlab Archive/',
 	refreshOnStartup: true,
 	intervalOfRefresh: "15",
+	maxPages: 20,
+	cardCacheMinutes: 5,
+	incrementalSync: false,
+	fullSyncInterval: "24",
+	syncState: {},
+	twoWaySync: false,
+	importNotes: false,
+	importMergeRequests: false,
+	mergeRequestOutputDir: '/Gitlab Merge Requests/',
+	mergeRequestTemplateFile: '',
+	mergeRequestFilter: 'state=opened',
+	filenameTemplate: '{{title}}',
+	folderLayout: 'flat',
+	folderTemplate: '',
+	boardGrouping: 'state',
+	boardLabels: 'workflow::*',
+	issueLinkFormat: 'wikilink',
+	issueSuggestPrefix: 'gl#',
 	gitlabApiUrl(): string {
 		return `${this.gitlabUrl}/api/v4`;
 	}
@@ -44,11 +68,81 @@ export const settings: SettingsTab = {
 			value: "outputDir",
 			modifier: "normalizePath"
 		},
+		{
+			title: "Filename Template",
+			description: 'Handlebars template for note filenames, e.g. "{{references.full}} - {{title}}" or "{{project}}/{{iid}}". Slashes create subfolders.',
+			placeholder: "{{title}}",
+			value: "filenameTemplate"
+		},
+		{
+			title: "Folder Template",
+			description: 'Handlebars template for the subfolder of each note when the folder layout is "Custom template", e.g. "{{project}}/{{milestone.title}}".',
+			placeholder: "{{project}}",
+			value: "folderTemplate"
+		},
+		{
+			title: "Archive Folder",
+			description: 'Where purged notes are moved to when the purge action is "Move to archive folder".',
+			placeholder: "/Gitlab Archive/",
+			value: "archiveDir"
+		},
 		{
 			title: "Issues Filter",
 			description: 'The query string used to filter the issues.',
 			placeholder: 'due_date=month',
 			value: 'filter'
+		},
+		{
+			title: "Default Project",
+			description: 'Project that short issue references such as #42 point to, e.g. "group/app". References such as other-app#42 resolve next to it.',
+			placeholder: "group/app",
+			value: "defaultProject"
+		},
+		{
+			title: "Board Labels",
+			description: 'Labels shown as board columns when the board is grouped by scoped labels, e.g. "workflow::*" for every label of a scope or "workflow::todo, workflow::doing".',
+			placeholder: "workflow::*",
+			value: "boardLabels"
+		},
+		{
+			title: "Issue Suggest Prefix",
+			description: 'Typing this in the editor suggests GitLab issues to link to. Leave empty to turn the suggestions off.',
+			placeholder: "gl#",
+			value: "issueSuggestPrefix"
+		},
+		{
+			title: "Merge Request Output Folder",
+			description: 'Path to an Obsidian folder to write merge request notes to.',
+			placeholder: "Gitlab Merge Requests",
+			value: "mergeRequestOutputDir",
+			modifier: "normalizePath"
+		},
+		{
+			title: 'Merge Request Template File',
+			description: 'Path to an Obsidian note to use as the merge request template.',
+			placeholder: 'your-merge-request-template-file.md',
+			value: "mergeRequestTemplateFile"
+		},
+		{
+			title: "Merge Requests Filter",
+			description: 'The query string used to filter the merge requests assigned to you or awaiting your review.',
+			placeholder: 'state=opened',
+			value: 'mergeRequestFilter'
+		}
+	],
+	numberInputs: [{
+		title: "Maximum Pages",
+		description: 'The maximum number of pages (of 100 issues each) loaded per source. Purge is skipped when this limit is reached.',
+		placeholder: "20",
+		value: "maxPages",
+		min: 1
+	},
+		{
+			title: "Card Cache Duration",
+			description: 'Minutes an embedded issue card is shown from the cache before it is fetched again. Cached cards are also shown while offline.',
+			placeholder: "5",
+			value: "cardCacheMinutes",
+			min: 0
 		}
 	],
 	dropdowns: [{
@@ -62,6 +156,36 @@ export const settings: SettingsTab = {
 			description: "The scope at which the api request will pull.",
 			options: {personal: "Personal", project: "Project", group: "Group", custom: "Custom Sources"},
 			value: "gitlabIssuesLevel"
+		},
+		{
+			title: "Full Sync Interval",
+			description: "With incremental sync, how many hours between full refreshes that detect deleted issues.",
+			options: {"1": "1", "6": "6", "12": "12", "24": "24", "168": "168"},
+			value: "fullSyncInterval"
+		},
+		{
+			title: "Folder Layout",
+			description: "How notes are organised in subfolders of the output folder.",
+			options: {flat: "Flat", project: "By project", "group-project": "By group/project", milestone: "By milestone", template: "Custom template"},
+			value: "folderLayout"
+		},
+		{
+			title: "Purge Action",
+			description: "What happens to notes of issues that are no longer returned by Gitlab.",
+			options: {delete: "Delete", archive: "Move to archive folder", trash: "Move to trash"},
+			value: "purgeMode"
+		},
+		{
+			title: "Board Columns",
+			description: "What the columns of the issue board stand for.",
+			options: {state: "State", labels: "Scoped labels", assignee: "Assignee", milestone: "Milestone"},
+			value: "boardGrouping"
+		},
+		{
+			title: "Issue Link Format",
+			description: "What is inserted when linking an issue. Issues without a synced note are always linked by URL.",
+			options: {wikilink: "Link to the synced note", url: "GitLab URL", reference: "Short reference"},
+			value: "issueLinkFormat"
 		}
 	],
 	checkBoxInputs: [{
@@ -75,6 +199,22 @@ export const settings: SettingsTab = {
 		{
 			title: 'Should refresh Gitlab issues on Startup?',
 			value: 'refreshOnStartup'
+		},
+		{
+			title: 'Only load issues updated since the last refresh?',
+			value: 'incrementalSync'
+		},
+		{
+			title: 'Push frontmatter edits (state, labels, due date, assignees, milestone) back to Gitlab?',
+			value: 'twoWaySync'
+		},
+		{
+			title: 'Import comments and discussion threads into issue notes?',
+			value: 'importNotes'
+		},
+		{
+			title: 'Import merge requests assigned to you or awaiting your review?',
+			value: 'importMergeRequests'
 		}
 	],
 	getGitlabIssuesLevel: (currentLevel) => {
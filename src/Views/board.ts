@@ -0,0 +1,105 @@
+import { SyncedIssue } from "../GitlabSync/issue-notes";
+import { BoardGrouping } from "../SettingsTab/settings-types";
+
+export interface BoardColumn {
+	/** The state, label, assignee or milestone of the column, empty for the column of issues without one. */
+	key: string;
+	title: string;
+	issues: Array<SyncedIssue>;
+}
+
+/** What moving an issue to another column changes in GitLab. */
+export type BoardMove =
+	| { kind: "state"; stateEvent: "close" | "reopen" }
+	| { kind: "labels"; add: string[]; remove: string[] }
+	| { kind: "assignee"; username: string | null }
+	| { kind: "milestone"; title: string | null };
+
+interface BoardLabels {
+	/** Scopes of which every label is a column, from entries like `workflow::*`. */
+	scopes: string[];
+	/** Labels that are a column in the order they were given. */
+	labels: string[];
+}
+
+const EMPTY_COLUMN_TITLES: Record<Exclude<BoardGrouping, "state">, string> = {
+	labels: "Open",
+	assignee: "Unassigned",
+	milestone: "No milestone",
+};
+
+export function parseBoardLabels(boardLabels: string): BoardLabels {
+	const entries = boardLabels.split(",").map((entry) => entry.trim()).filter((entry) => entry.length > 0);
+	return {
+		scopes: entries.filter((entry) => entry.endsWith("::*")).map((entry) => entry.slice(0, -1)),
+		labels: entries.filter((entry) => !entry.endsWith("::*")),
+	};
+}
+
+function isBoardLabel(label: string, boardLabels: BoardLabels): boolean {
+	return boardLabels.labels.includes(label) || boardLabels.scopes.some((scope) => label.startsWith(scope));
+}
+
+/** The key of the column an issue is shown in, issues with several assignees are shown under the first. */
+export function getColumnKey(issue: SyncedIssue, grouping: BoardGrouping, boardLabels: BoardLabels): string {
+	switch (grouping) {
+		case "labels":
+			return issue.labels.find((label) => isBoardLabel(label, boardLabels)) ?? "";
+		case "assignee":
+			return issue.assignees[0] ?? "";
+		case "milestone":
+			return issue.milestone ?? "";
+		case "state":
+		default:
+			return issue.state === "closed" ? "closed" : "opened";
+	}
+}
+
+/**
+ * Groups issues into columns. Configured labels always get a column, other columns are made for the
+ * values the issues have, sorted by name after the column of issues without one.
+ */
+export function buildColumns(issues: Array<SyncedIssue>, grouping: BoardGrouping, boardLabelsSetting: string): Array<BoardColumn> {
+	const boardLabels = parseBoardLabels(boardLabelsSetting);
+	const keys = grouping === "state"
+		? ["opened", "closed"]
+		: [
+			"",
+			...(grouping === "labels" ? boardLabels.labels : []),
+			...Array.from(new Set(issues.map((issue) => getColumnKey(issue, grouping, boardLabels))))
+				.filter((key) => key && !(grouping === "labels" && boardLabels.labels.includes(key)))
+				.sort((left, right) => left.localeCompare(right)),
+		];
+
+	return keys.map((key) => ({
+		key,
+		title: grouping === "state"
+			? (key === "closed" ? "Closed" : "Open")
+			: key || EMPTY_COLUMN_TITLES[grouping],
+		issues: issues.filter((issue) => getColumnKey(issue, grouping, boardLabels) === key),
+	}));
+}
+
+/** What has to change for an issue to move to the column with `key`, or null when it already is there. */
+export function getBoardMove(issue: SyncedIssue, grouping: BoardGrouping, boardLabelsSetting: string, key: string): BoardMove | null {
+	const boardLabels = parseBoardLabels(boardLabelsSetting);
+	if (getColumnKey(issue, grouping, boardLabels) === key) {
+		return null;
+	}
+
+	switch (grouping) {
+		case "labels":
+			return {
+				kind: "labels",
+				add: key ? [key] : [],
+				remove: issue.labels.filter((label) => isBoardLabel(label, boardLabels)),
+			};
+		case "assignee":
+			return { kind: "assignee", username: key || null };
+		case "milestone":
+			return { kind: "milestone", title: key || null };
+		case "state":
+		default:
+			return { kind: "state", stateEvent: key === "closed" ? "close" : "reopen" };
+	}
+}
@@ -0,0 +1,87 @@
+import { SyncedIssue } from "../GitlabSync/issue-notes";
+
+export type IssueSort = "due" | "updated" | "title" | "project";
+
+export interface IssueListFilter {
+	search: string;
+	assignedToMe: boolean;
+	dueThisWeek: boolean;
+	overdue: boolean;
+	includeClosed: boolean;
+	/** Empty for any label or project. */
+	label: string;
+	project: string;
+}
+
+export const EMPTY_FILTER: IssueListFilter = {
+	search: "",
+	assignedToMe: false,
+	dueThisWeek: false,
+	overdue: false,
+	includeClosed: false,
+	label: "",
+	project: "",
+};
+
+/** A date as `YYYY-MM-DD` in local time, the format of GitLab due dates. */
+export function toDateString(date: Date): string {
+	const pad = (value: number) => `0${value}`.slice(-2);
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** The project path of an issue, the default template writes the full reference like `group/app#12`. */
+export function getProjectPath(issue: SyncedIssue): string {
+	return issue.project.replace(/#\d+$/, "");
+}
+
+function getEndOfWeek(today: Date): string {
+	// Weeks end on Sunday
+	const daysLeft = (7 - today.getDay()) % 7;
+	return toDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() + daysLeft));
+}
+
+/**
+ * Applies the search and quick filters. `usernames` are the current user on each connection, as
+ * "assigned to me" has to match the account of the instance the issue is on.
+ */
+export function filterIssues(issues: Array<SyncedIssue>, filter: IssueListFilter, usernames: Array<string>, today: Date): Array<SyncedIssue> {
+	const search = filter.search.trim().toLowerCase();
+	const todayString = toDateString(today);
+	const endOfWeek = getEndOfWeek(today);
+
+	return issues.filter((issue) => {
+		const closed = issue.state === "closed";
+		return (filter.includeClosed || !closed)
+			&& (!search || `${issue.title} ${issue.project} ${issue.labels.join(" ")}`.toLowerCase().includes(search))
+			&& (!filter.assignedToMe || issue.assignees.some((username) => usernames.includes(username)))
+			&& (!filter.dueThisWeek || (!!issue.dueDate && issue.dueDate >= todayString && issue.dueDate <= endOfWeek))
+			&& (!filter.overdue || (!closed && !!issue.dueDate && issue.dueDate < todayString))
+			&& (!filter.label || issue.labels.includes(filter.label))
+			&& (!filter.project || getProjectPath(issue) === filter.project);
+	});
+}
+
+/** Sorts a copy of the issues, issues without a due date come last when sorting by due date. */
+export function sortIssues(issues: Array<SyncedIssue>, sort: IssueSort): Array<SyncedIssue> {
+	const compare = (left: SyncedIssue, right: SyncedIssue): number => {
+		switch (sort) {
+			case "due":
+				if (left.dueDate === right.dueDate) {
+					return 0;
+				}
+				if (!left.dueDate || !right.dueDate) {
+					return left.dueDate ? -1 : 1;
+				}
+				return left.dueDate.localeCompare(right.dueDate);
+			case "title":
+				return left.title.localeCompare(right.title);
+			case "project":
+				return getProjectPath(left).localeCompare(getProjectPath(right)) || left.iid - right.iid;
+			case "updated":
+			default:
+				return right.updatedAt.localeCompare(left.updatedAt);
+		}
+	};
+
+	return [...issues].sort(compare);
+}
@@ -0,0 +1,184 @@
+import { debounce, DropdownComponent, ItemView, Notice, WorkspaceLeaf } from "obsidian";
+import GitlabIssuesPlugin from "../main";
+import { getSettingsForItem } from "../GitlabLoader/connections";
+import GitlabApi from "../GitlabLoader/gitlab-api";
+import GitlabLoader from "../GitlabLoader/gitlab-loader";
+import { Issue } from "../GitlabLoader/issue-types";
+import { getLabelDetails } from "../GitlabLoader/label-loader";
+import { findMilestoneId, findUserId } from "../GitlabLoader/lookups";
+import { getSyncedIssues, SyncedIssue } from "../GitlabSync/issue-notes";
+import { createLabelChip } from "../GitlabPostProcessor/label-chips";
+import { BoardGrouping, GitlabIssuesSettings } from "../SettingsTab/settings-types";
+import { logger } from "../utils/utils";
+import { BoardColumn, BoardMove, buildColumns, getBoardMove } from "./board";
+
+export const BOARD_VIEW_TYPE = "gitlab-issues-board";
+
+const GROUPINGS: Record<BoardGrouping, string> = {
+	state: "State",
+	labels: "Scoped labels",
+	assignee: "Assignee",
+	milestone: "Milestone",
+};
+
+/**
+ * Shows the synced issue notes as a board. Dropping an issue in another column changes its state,
+ * label, assignee or milestone in GitLab, after which its note is updated and the board follows.
+ */
+export class KanbanView extends ItemView {
+	private draggedIssue: SyncedIssue | null = null;
+	private scheduleRender = debounce(() => this.render(), 500, true);
+
+	constructor(leaf: WorkspaceLeaf, private plugin: GitlabIssuesPlugin) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return BOARD_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "GitLab board";
+	}
+
+	getIcon(): string {
+		return "kanban";
+	}
+
+	async onOpen() {
+		this.registerEvent(this.app.metadataCache.on("changed", () => this.scheduleRender()));
+		this.registerEvent(this.app.vault.on("delete", () => this.scheduleRender()));
+		this.registerEvent(this.app.vault.on("rename", () => this.scheduleRender()));
+		this.app.workspace.onLayoutReady(() => this.render());
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	private render() {
+		const settings = this.plugin.settings;
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("gitlab-board");
+
+		const toolbar = container.createDiv({ cls: "gitlab-board-toolbar" });
+		toolbar.createSpan({ text: "Columns" });
+		new DropdownComponent(toolbar)
+			.addOptions(GROUPINGS)
+			.setValue(settings.boardGrouping)
+			.onChange(async (value) => {
+				settings.boardGrouping = value as BoardGrouping;
+				await this.plugin.saveSettings();
+				this.render();
+			});
+
+		const issues = getSyncedIssues(this.app, settings);
+		if (issues.length === 0) {
+			container.createDiv({ cls: "gitlab-board-empty", text: "No synced issues yet. Import issues from GitLab to see them here." });
+			return;
+		}
+
+		const columnsEl = container.createDiv({ cls: "gitlab-board-columns" });
+		buildColumns(issues, settings.boardGrouping, settings.boardLabels)
+			.forEach((column) => this.renderColumn(columnsEl, column));
+	}
+
+	private renderColumn(columnsEl: HTMLElement, column: BoardColumn) {
+		const columnEl = columnsEl.createDiv({ cls: "gitlab-board-column" });
+		const header = columnEl.createDiv({ cls: "gitlab-board-column-header" });
+		header.createSpan({ text: column.title });
+		header.createSpan({ cls: "gitlab-board-count", text: String(column.issues.length) });
+
+		const cardsEl = columnEl.createDiv({ cls: "gitlab-board-cards" });
+		column.issues.forEach((issue) => this.renderCard(cardsEl, issue));
+
+		columnEl.addEventListener("dragover", (event) => {
+			event.preventDefault();
+			columnEl.addClass("drop-target");
+		});
+		columnEl.addEventListener("dragleave", () => columnEl.removeClass("drop-target"));
+		columnEl.addEventListener("drop", (event) => {
+			event.preventDefault();
+			columnEl.removeClass("drop-target");
+
+			const issue = this.draggedIssue;
+			const settings = this.plugin.settings;
+			const move = issue ? getBoardMove(issue, settings.boardGrouping, settings.boardLabels, column.key) : null;
+			if (issue && move) {
+				// Show the move straight away, the board is rendered again once the note was updated
+				const card = this.contentEl.querySelector(`[data-path="${CSS.escape(issue.file.path)}"]`);
+				card?.addClass("pending");
+				if (card) {
+					cardsEl.appendChild(card);
+				}
+				this.applyMove(issue, move, column.title);
+			}
+		});
+	}
+
+	private renderCard(cardsEl: HTMLElement, issue: SyncedIssue) {
+		const card = cardsEl.createDiv({ cls: "gitlab-board-card" });
+		card.draggable = true;
+		card.dataset.path = issue.file.path;
+		card.addEventListener("dragstart", (event) => {
+			this.draggedIssue = issue;
+			event.dataTransfer?.setData("text/plain", issue.file.path);
+		});
+		card.addEventListener("dragend", () => (this.draggedIssue = null));
+
+		const title = card.createEl("a", { cls: "gitlab-board-card-title", text: issue.title });
+		title.addEventListener("click", (event) => {
+			event.preventDefault();
+			this.app.workspace.getLeaf(event.ctrlKey || event.metaKey).openFile(issue.file);
+		});
+
+		const metadata = [
+			// The default template writes the full reference, like group/app#12
+			issue.project || `#${issue.iid}`,
+			...(issue.assignees.length > 0 ? [issue.assignees.map((username) => `@${username}`).join(", ")] : []),
+			...(issue.dueDate ? [`Due ${issue.dueDate}`] : []),
+		];
+		card.createDiv({ cls: "gitlab-board-card-metadata", text: metadata.join(" • ") });
+
+		if (issue.labels.length > 0) {
+			const labelsEl = card.createDiv({ cls: "issue-labels" });
+			this.plugin.labelLoader.loadLabels(issue.projectId, issue.webUrl, issue.connection)
+				.catch(() => [])
+				.then((definitions) => getLabelDetails(issue.labels, definitions)
+					.forEach((label) => labelsEl.appendChild(createLabelChip(label))));
+		}
+	}
+
+	private async applyMove(issue: SyncedIssue, move: BoardMove, columnTitle: string) {
+		try {
+			const settings = getSettingsForItem(this.plugin.settings, issue.connection, issue.webUrl);
+			const updatedIssue = await GitlabApi.update<Issue>(
+				`${settings.gitlabApiUrl()}/projects/${issue.projectId}/issues/${issue.iid}`,
+				settings.gitlabToken,
+				await this.buildRequestBody(settings, issue, move)
+			);
+
+			await new GitlabLoader(this.app, this.plugin.settings, this.plugin.notesCache, this.plugin.labelLoader)
+				.saveIssueNote(updatedIssue, false);
+		} catch (error) {
+			new Notice(`Could not move "${issue.title}" to ${columnTitle}: ${error.message}`);
+			logger(error.message);
+			this.render();
+		}
+	}
+
+	private async buildRequestBody(settings: GitlabIssuesSettings, issue: SyncedIssue, move: BoardMove): Promise<Record<string, unknown>> {
+		switch (move.kind) {
+			case "labels":
+				return { add_labels: move.add.join(","), remove_labels: move.remove.join(",") };
+			case "assignee":
+				return { assignee_ids: move.username ? [await findUserId(settings, move.username)] : [] };
+			case "milestone":
+				return { milestone_id: move.title ? await findMilestoneId(settings, issue.projectId, move.title) : 0 };
+			case "state":
+			default:
+				return { state_event: move.stateEvent };
+		}
+	}
+}
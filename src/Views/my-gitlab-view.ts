@@ -0,0 +1,206 @@
+import { debounce, DropdownComponent, Events, ItemView, setIcon, TFile, WorkspaceLeaf } from "obsidian";
+import GitlabIssuesPlugin from "../main";
+import { getConnections, withConnection } from "../GitlabLoader/connections";
+import { SYNC_COMPLETE_EVENT } from "../GitlabLoader/gitlab-loader";
+import { loadCurrentUser } from "../GitlabLoader/lookups";
+import { getSyncedIssues, isIssueNote, SyncedIssue } from "../GitlabSync/issue-notes";
+import { logger } from "../utils/utils";
+import { EMPTY_FILTER, filterIssues, getProjectPath, IssueListFilter, IssueSort, sortIssues } from "./issue-list";
+
+export const MY_GITLAB_VIEW_TYPE = "gitlab-issues-sidebar";
+
+const SORTS: Record<IssueSort, string> = {
+	updated: "Recently updated",
+	due: "Due date",
+	title: "Title",
+	project: "Project",
+};
+
+type QuickFilter = "assignedToMe" | "dueThisWeek" | "overdue" | "includeClosed";
+
+const QUICK_FILTERS: Record<QuickFilter, string> = {
+	assignedToMe: "Assigned to me",
+	dueThisWeek: "Due this week",
+	overdue: "Overdue",
+	includeClosed: "Closed",
+};
+
+/**
+ * Lists the synced issue notes in the sidebar with a search, quick filters and sorting. The list is
+ * refreshed after every sync and when an issue note changes.
+ */
+export class MyGitlabView extends ItemView {
+	private filter: IssueListFilter = { ...EMPTY_FILTER };
+	private sort: IssueSort = "updated";
+	private usernames: Array<string> = [];
+	private listEl: HTMLElement;
+	private scheduleRender = debounce(() => this.renderList(), 500, true);
+
+	constructor(leaf: WorkspaceLeaf, private plugin: GitlabIssuesPlugin) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return MY_GITLAB_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "My GitLab";
+	}
+
+	getIcon(): string {
+		return "list-checks";
+	}
+
+	async onOpen() {
+		// The workspace only declares its own events, the sync event is triggered by the plugin
+		this.registerEvent((this.app.workspace as Events).on(SYNC_COMPLETE_EVENT, () => this.render()));
+		this.registerEvent(this.app.metadataCache.on("changed", (file) => {
+			if (isIssueNote(this.plugin.settings, file, this.app.metadataCache.getFileCache(file)?.frontmatter)) {
+				this.scheduleRender();
+			}
+		}));
+		this.registerEvent(this.app.vault.on("delete", () => this.scheduleRender()));
+
+		this.app.workspace.onLayoutReady(() => this.render());
+		this.loadUsernames();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	/** Looks up the current user on every connection, for the "Assigned to me" filter. */
+	private async loadUsernames() {
+		const users = await Promise.all(getConnections(this.plugin.settings)
+			.filter((connection) => connection.token)
+			.map((connection) => loadCurrentUser(withConnection(this.plugin.settings, connection))
+				.catch((error) => {
+					logger(`Could not load the current user of ${connection.name}: ${error.message}`);
+					return null;
+				})));
+
+		this.usernames = users.flatMap((user) => (user ? [user.username] : []));
+		if (this.filter.assignedToMe) {
+			this.renderList();
+		}
+	}
+
+	private render() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("gitlab-sidebar");
+
+		const issues = getSyncedIssues(this.app, this.plugin.settings);
+
+		const search = container.createEl("input", {
+			cls: "gitlab-sidebar-search",
+			type: "search",
+			placeholder: "Search issues",
+			value: this.filter.search,
+		});
+		search.addEventListener("input", () => {
+			this.filter.search = search.value;
+			this.renderList();
+		});
+
+		const quickFilters = container.createDiv({ cls: "gitlab-sidebar-filters" });
+		(Object.keys(QUICK_FILTERS) as Array<QuickFilter>).forEach((key) => {
+			const button = quickFilters.createEl("button", { cls: "gitlab-sidebar-filter", text: QUICK_FILTERS[key] });
+			button.toggleClass("is-active", this.filter[key]);
+			button.addEventListener("click", () => {
+				this.filter[key] = !this.filter[key];
+				button.toggleClass("is-active", this.filter[key]);
+				this.renderList();
+			});
+		});
+
+		const options = container.createDiv({ cls: "gitlab-sidebar-options" });
+		this.addDropdown(options, "Any label", this.getValues(issues.flatMap((issue) => issue.labels)), "label");
+		this.addDropdown(options, "Any project", this.getValues(issues.map(getProjectPath)), "project");
+		new DropdownComponent(options)
+			.addOptions(SORTS)
+			.setValue(this.sort)
+			.onChange((value) => {
+				this.sort = value as IssueSort;
+				this.renderList();
+			});
+
+		this.listEl = container.createDiv({ cls: "gitlab-sidebar-list" });
+		this.renderList(issues);
+	}
+
+	private addDropdown(container: HTMLElement, anyText: string, values: Array<string>, key: "label" | "project") {
+		const dropdown = new DropdownComponent(container).addOption("", anyText);
+		values.forEach((value) => dropdown.addOption(value, value));
+		// Keep a choice that no longer exists selectable, so it can be cleared
+		if (this.filter[key] && !values.includes(this.filter[key])) {
+			dropdown.addOption(this.filter[key], this.filter[key]);
+		}
+		dropdown.setValue(this.filter[key])
+			.onChange((value) => {
+				this.filter[key] = value;
+				this.renderList();
+			});
+	}
+
+	private getValues(values: Array<string>): Array<string> {
+		return Array.from(new Set(values.filter((value) => value))).sort((left, right) => left.localeCompare(right));
+	}
+
+	private renderList(issues = getSyncedIssues(this.app, this.plugin.settings)) {
+		if (!this.listEl) {
+			return;
+		}
+		this.listEl.empty();
+
+		const shownIssues = sortIssues(filterIssues(issues, this.filter, this.usernames, new Date()), this.sort);
+		if (shownIssues.length === 0) {
+			this.listEl.createDiv({
+				cls: "gitlab-sidebar-empty",
+				text: issues.length === 0 ? "No synced issues yet." : "No issues match the filters.",
+			});
+			return;
+		}
+
+		shownIssues.forEach((issue) => this.renderIssue(issue));
+	}
+
+	private renderIssue(issue: SyncedIssue) {
+		const item = this.listEl.createDiv({ cls: "gitlab-sidebar-issue" });
+		item.toggleClass("closed", issue.state === "closed");
+
+		const body = item.createDiv({ cls: "gitlab-sidebar-issue-body" });
+		const title = body.createEl("a", { cls: "gitlab-sidebar-issue-title", text: issue.title });
+		title.addEventListener("click", (event) => {
+			event.preventDefault();
+			this.openNote(issue.file, event.ctrlKey || event.metaKey);
+		});
+
+		const metadata = [
+			issue.project || `#${issue.iid}`,
+			...(issue.dueDate ? [`Due ${issue.dueDate}`] : []),
+			...issue.labels,
+		];
+		body.createDiv({ cls: "gitlab-sidebar-issue-metadata", text: metadata.join(" • ") });
+
+		const actions = item.createDiv({ cls: "gitlab-sidebar-issue-actions" });
+		this.addIssueAction(actions, "file-text", "Open note", () => this.openNote(issue.file, false));
+		if (issue.webUrl) {
+			this.addIssueAction(actions, "external-link", "Open in GitLab", () => window.open(issue.webUrl));
+		}
+	}
+
+	private addIssueAction(container: HTMLElement, icon: string, label: string, action: () => void) {
+		const button = container.createEl("button", { cls: "clickable-icon", attr: { "aria-label": label } });
+		setIcon(button, icon);
+		button.addEventListener("click", (event) => {
+			event.preventDefault();
+			action();
+		});
+	}
+
+	private openNote(file: TFile, newLeaf: boolean) {
+		this.app.workspace.getLeaf(newLeaf).openFile(file);
+	}
+}
@@ -5,58 +5,214 @@ import {
 	TFolder,
 	App,
 	getFrontMatterInfo,
+	normalizePath,
 	parseYaml,
-	Notice,
 } from "obsidian";
-import { compile } from "handlebars";
+import { getItemKey } from "./GitlabLoader/connections";
 import { ObsidianIssue } from "./GitlabLoader/issue-types";
+import { ObsidianMergeRequest } from "./GitlabLoader/merge-request-types";
 import { GitlabIssuesSettings } from "./SettingsTab/settings-types";
-import { DEFAULT_TEMPLATE, logger, sendNotification, needsUpdate } from "./utils/utils";
+import { DEFAULT_TEMPLATE, logger, sendNotification, needsUpdate, compileTemplate, renderFolder, replaceManagedRegion } from "./utils/utils";
+
+export type ObsidianItem = ObsidianIssue | ObsidianMergeRequest;
+
+export type NoteOutcome = "created" | "updated" | "unchanged";
+
+/** What writing the notes of a result did, for the sync report. */
+export interface WriteSummary {
+	/** The outcome for the note of each item that was written, by item key, see `getItemKey`. */
+	outcomes: Map<string, NoteOutcome>;
+	purged: number;
+	/** Items whose note could not be written, by title. */
+	errors: Array<{ kind: "template" | "note"; source: string; message: string }>;
+	templateFile: string;
+	/** Set when the template file could not be read and the default template was used instead. */
+	templateError: string | null;
+}
+
+/** Thrown when the template fails to render an item, to tell it apart from failing to write the note. */
+class TemplateError extends Error {}
+
+/** Where a kind of GitLab item is written to and how it is rendered. */
+export interface OutputTarget {
+	outputDir: string;
+	templateFile: string;
+	defaultTemplate: string;
+	itemName: string;
+	/** The sources whose notes a purge may remove, recognised by the `source` in their frontmatter. */
+	syncSources?: Array<string>;
+	/** Every configured source: notes of the others belong to another target and are never purged. */
+	knownSources?: Array<string>;
+	/** The output folders of other targets that are this one or inside it, where notes without a known source are kept. */
+	otherDirs?: Array<string>;
+}
+
+function toFolderPath(path: string): string {
+	return path.split("/").filter((segment) => segment.length > 0).join("/");
+}
+
+/** The folders out of `dirs` that are `outputDir` itself or inside it. */
+export function getNestedDirs(outputDir: string, dirs: Array<string>): Array<string> {
+	const folder = toFolderPath(outputDir);
+	return dirs.filter((dir) => {
+		const otherFolder = toFolderPath(dir);
+		return folder === "" || otherFolder === folder || otherFolder.startsWith(`${folder}/`);
+	});
+}
+
+/**
+ * Whether purging a target may remove a stale note: one written for a source of the target, or one without
+ * a known source, e.g. written before sources were recorded or by a removed source, outside the folders of other targets.
+ * Targets without sources, like a single note, own every note in their folder.
+ */
+export function isOwnedNote(target: OutputTarget, path: string, source: unknown): boolean {
+	if (typeof source === "string" && target.syncSources?.includes(source)) {
+		return true;
+	}
+	if (typeof source === "string" && target.knownSources?.includes(source)) {
+		return false;
+	}
+	return !(target.otherDirs ?? [])
+		.map(toFolderPath)
+		.some((otherDir) => otherDir === "" || path.startsWith(`${otherDir}/`));
+}
+
+export function getIssueTarget(settings: GitlabIssuesSettings): OutputTarget {
+	return {
+		outputDir: settings.outputDir,
+		templateFile: settings.templateFile,
+		defaultTemplate: DEFAULT_TEMPLATE,
+		itemName: "Issue",
+	};
+}
 
 export default class Filesystem {
 	private vault: Vault;
+	private target: OutputTarget;
 
-	constructor(private app: App, private settings: GitlabIssuesSettings) {
+	constructor(private app: App, private settings: GitlabIssuesSettings, target?: OutputTarget) {
 		this.vault = app.vault;
+		this.target = target ?? getIssueTarget(settings);
 	}
 
 	public createOutputDirectory() {
-		this.vault.createFolder(this.settings.outputDir).catch((error) => {
-			if (error.message !== "Folder already exists.") {
-				logger("Could not create output directory");
-			}
-		});
+		this.ensureFolder(normalizePath(this.target.outputDir))
+			.catch(() => logger("Could not create output directory"));
 	}
 
-	public purgeExistingIssues() {
-		const outputDir: TAbstractFile | null =
-			this.vault.getAbstractFileByPath(this.settings.outputDir);
+	/**
+	 * Writes every item to its note. With `purgeStale`, notes of items that are no longer in the
+	 * result are removed once the others are written; callers only pass it for a complete fetch.
+	 */
+	public async processIssues(issues: Array<ObsidianItem>, purgeStale = false): Promise<WriteSummary> {
+		const summary: WriteSummary = {
+			outcomes: new Map(),
+			purged: 0,
+			errors: [],
+			templateFile: this.target.templateFile,
+			templateError: null,
+		};
 
-		if (outputDir instanceof TFolder) {
-			Vault.recurseChildren(outputDir, (existingFile: TAbstractFile) => {
-				if (existingFile instanceof TFile) {
-					this.vault
-						.delete(existingFile)
-						.catch((error) => logger(error.message));
-				}
-			});
+		try {
+			const { template, error } = await this.readTemplate();
+			summary.templateError = error;
+
+			const existingNotes = this.indexExistingNotes();
+			const claimedNames = new Set<string>();
+			await Promise.all(issues.map((issue: ObsidianItem) =>
+				this.saveOrUpdateIssue(issue, template, existingNotes, claimedNames)
+					.then(({ outcome }) => summary.outcomes.set(this.getItemKey(issue), outcome))
+					.catch((error) => {
+						logger(error.message);
+						summary.errors.push({
+							kind: error instanceof TemplateError ? "template" : "note",
+							source: issue.title,
+							message: error.message,
+						});
+					})
+			));
+
+			if (purgeStale) {
+				const freshKeys = new Set(issues.map((issue) => this.getItemKey(issue)));
+				summary.purged = await this.purgeStaleNotes(existingNotes, freshKeys);
+			}
+		} catch (error) {
+			logger(error.message);
+			summary.errors.push({ kind: "note", source: this.target.outputDir, message: error.message });
 		}
+
+		return summary;
+	}
+
+	/** Finds the note of an item in the output folder by the `connection` and `id` in its frontmatter. */
+	public findNote(item: Pick<ObsidianItem, "id" | "connection" | "web_url">): TFile | null {
+		return this.indexExistingNotes().get(this.getItemKey(item)) ?? null;
 	}
 
-	public processIssues(issues: Array<ObsidianIssue>) {
-		this.vault.adapter
-			.read(this.settings.templateFile)
-			.then((rawTemplate: string) => compile(rawTemplate))
+	/** Writes or updates the note of a single item the same way a sync does, and returns it. */
+	public async saveOrUpdateNote(item: ObsidianItem): Promise<TFile> {
+		const { template } = await this.readTemplate();
+		const { file } = await this.saveOrUpdateIssue(item, template, this.indexExistingNotes(), new Set());
+		return file;
+	}
+
+	/** Compiles the template file, falling back to the default template. Only a configured file that cannot be read is an error. */
+	private readTemplate(): Promise<{ template: HandlebarsTemplateDelegate; error: string | null }> {
+		return this.vault.adapter
+			.read(this.target.templateFile)
+			.then((rawTemplate: string) => ({ template: compileTemplate(rawTemplate), error: null }))
 			.catch(() => {
 				logger("Could not read template file, using default template");
-				return compile(DEFAULT_TEMPLATE);
-			})
-			.then((template) => {
-				issues.forEach((issue: ObsidianIssue) => {
-					this.saveOrUpdateIssue(issue, template);
-				});
-			})
-			.catch((error) => logger(error.message));
+				return {
+					template: compileTemplate(this.target.defaultTemplate),
+					error: this.target.templateFile
+						? `Could not read the template ${this.target.templateFile}, the default template was used`
+						: null,
+				};
+			});
+	}
+
+	/**
+	 * Removes the notes written by this plugin, recognised by the `id` in their frontmatter, whose
+	 * item was not fetched again. Other files in the output folder, and notes owned by another target, are never touched.
+	 */
+	private async purgeStaleNotes(existingNotes: Map<string, TFile>, freshKeys: Set<string>): Promise<number> {
+		const archiveDir = normalizePath(this.settings.archiveDir);
+		let purged = 0;
+
+		for (const [key, file] of existingNotes) {
+			if (freshKeys.has(key) || (this.settings.purgeMode === "archive" && file.path.startsWith(archiveDir + "/"))) {
+				continue;
+			}
+			if (!isOwnedNote(this.target, file.path, this.app.metadataCache.getFileCache(file)?.frontmatter?.source)) {
+				continue;
+			}
+
+			try {
+				if (this.settings.purgeMode === "archive") {
+					await this.archiveNote(file, archiveDir);
+				} else if (this.settings.purgeMode === "trash") {
+					await this.app.fileManager.trashFile(file);
+				} else {
+					await this.vault.delete(file);
+				}
+				purged++;
+			} catch (error) {
+				logger(`Could not purge ${file.path}: ${error.message}`);
+			}
+		}
+		return purged;
+	}
+
+	private async archiveNote(file: TFile, archiveDir: string) {
+		const id = this.getNoteId(file);
+		let archivePath = normalizePath(`${archiveDir}/${file.name}`);
+		if (this.vault.getAbstractFileByPath(archivePath)) {
+			archivePath = normalizePath(`${archiveDir}/${file.basename} (${id}).${file.extension}`);
+		}
+
+		await this.ensureParentFolder(archivePath);
+		await this.app.fileManager.renameFile(file, archivePath);
 	}
 
 	private getFrontmatterFromContentString(content: string) {
@@ -64,52 +220,165 @@ export default class Filesystem {
 		return parseYaml(frontmatter);
 	}
 
-	private saveOrUpdateIssue(
-		issue: ObsidianIssue,
-		template: HandlebarsTemplateDelegate
-	) {
-		const content = template(issue);
-		this.getFrontmatterFromContentString(content);
+	/** Maps the item key of each note in the output folder, out of the `connection` and `id` in its frontmatter, to its file. */
+	private indexExistingNotes(): Map<string, TFile> {
+		const notes = new Map<string, TFile>();
+		const outputDir = this.vault.getAbstractFileByPath(normalizePath(this.target.outputDir));
 
-		const existingFile = this.vault.getAbstractFileByPath(
-			this.buildFileName(issue)
-		);
+		if (outputDir instanceof TFolder) {
+			Vault.recurseChildren(outputDir, (existingFile: TAbstractFile) => {
+				const key = this.getNoteKey(existingFile);
+				if (existingFile instanceof TFile && key !== null) {
+					notes.set(key, existingFile);
+				}
+			});
+		}
+
+		return notes;
+	}
+
+	/** Ids may collide across instances, so items are told apart by their connection too. */
+	private getItemKey(item: Pick<ObsidianItem, "id" | "connection" | "web_url">): string {
+		return getItemKey(this.settings, item.connection, item.web_url, item.id);
+	}
+
+	private getNoteKey(file: TAbstractFile | null): string | null {
+		const id = this.getNoteId(file);
+		if (id === null) {
+			return null;
+		}
+		const frontmatter = this.app.metadataCache.getFileCache(file as TFile)?.frontmatter;
+		return getItemKey(this.settings, frontmatter?.connection, frontmatter?.webUrl, id);
+	}
+
+	private getNoteId(file: TAbstractFile | null): number | null {
+		if (!(file instanceof TFile) || file.extension !== "md") {
+			return null;
+		}
+		const id = this.app.metadataCache.getFileCache(file)?.frontmatter?.id;
+		return id === undefined || id === null ? null : Number(id);
+	}
+
+	/**
+	 * Finds the note of an issue by the `id` in its frontmatter, falling back to its path for notes
+	 * written by templates without an `id`. A note found under an outdated name, e.g. after the issue
+	 * was renamed, is moved with `renameFile` so links to it keep working.
+	 */
+	private async findExistingNote(
+		issue: ObsidianItem,
+		fileName: string,
+		existingNotes: Map<string, TFile>
+	): Promise<TFile | null> {
+		const noteById = existingNotes.get(this.getItemKey(issue));
+
+		if (noteById) {
+			if (noteById.path !== fileName) {
+				await this.ensureParentFolder(fileName);
+				await this.app.fileManager.renameFile(noteById, fileName);
+			}
+			return noteById;
+		}
+
+		const noteByPath = this.vault.getAbstractFileByPath(fileName);
+		return noteByPath instanceof TFile ? noteByPath : null;
+	}
+
+	private async saveOrUpdateIssue(
+		issue: ObsidianItem,
+		template: HandlebarsTemplateDelegate,
+		existingNotes: Map<string, TFile>,
+		claimedNames: Set<string>
+	): Promise<{ file: TFile; outcome: NoteOutcome }> {
+		let content: string;
+		try {
+			content = template(issue);
+		} catch (error) {
+			throw new TemplateError(`Template error: ${error.message}`);
+		}
+		const key = this.getItemKey(issue);
+		const isTaken = (name: string) => {
+			const ownerKey = this.getNoteKey(this.vault.getAbstractFileByPath(name));
+			return (ownerKey !== null && ownerKey !== key) || claimedNames.has(name);
+		};
 
-		if (existingFile instanceof TFile) {
+		// Another issue already owns this name, e.g. one with the same title in another project, or even
+		// with the same id on another instance
+		let fileName = this.buildFileName(issue);
+		if (isTaken(fileName)) {
+			fileName = this.buildFileName(issue, ` (${issue.id})`);
+		}
+		if (isTaken(fileName)) {
+			fileName = this.buildFileName(issue, ` (${key.split(":")[0]} ${issue.id})`);
+		}
+		claimedNames.add(fileName);
+
+		const existingFile = await this.findExistingNote(issue, fileName, existingNotes);
+
+		if (existingFile) {
 			const newFrontmatter =
 				this.getFrontmatterFromContentString(content);
 
 			// Read existing frontmatter to compare
-			this.app.vault.read(existingFile).then((existingContent) => {
-				const existingFrontmatter = this.getFrontmatterFromContentString(existingContent);
-				
-				// Only update if there are actual changes
-				if (needsUpdate(existingFrontmatter, newFrontmatter)) {
-					this.app.fileManager
-						.processFrontMatter(existingFile, (frontmatter) => {
-							Object.assign(frontmatter, newFrontmatter);
-						})
-						.then(() => {
-							sendNotification("Issue Updated", issue.title, () => {
-								this.app.workspace.getLeaf(true).openFile(existingFile);
-							});
-						})
-						.catch((error) => logger(error.message));
-				}
-			}).catch((error) => logger(error.message));
-		} else {
-			this.vault
-				.create(this.buildFileName(issue), content)
-				.then((file) => {
-					sendNotification("New issue created", issue.title, () => {
-            this.app.workspace.getLeaf(true).openFile(file);
-          });
-				})
-				.catch((error) => logger(error.message));
+			const existingContent = await this.app.vault.read(existingFile);
+			const existingFrontmatter = this.getFrontmatterFromContentString(existingContent);
+
+			// Only the managed region of the body is rewritten, anything written around it is kept. Without
+			// its discussion the region is left as it is, rather than losing the discussion imported before.
+			const keepsBody = "notesUnavailable" in issue && issue.notesUnavailable === true;
+			const updatedContent = keepsBody ? null : replaceManagedRegion(existingContent, content);
+			const bodyChanged = updatedContent !== null && updatedContent !== existingContent;
+			const frontmatterChanged = needsUpdate(existingFrontmatter, newFrontmatter);
+
+			if (bodyChanged) {
+				await this.vault.process(existingFile, (data) => replaceManagedRegion(data, content) ?? data);
+			}
+			if (frontmatterChanged) {
+				await this.app.fileManager
+					.processFrontMatter(existingFile, (frontmatter) => {
+						Object.assign(frontmatter, newFrontmatter);
+					});
+			}
+
+			// Only notify if there are actual changes
+			if (bodyChanged || frontmatterChanged) {
+				sendNotification(`${this.target.itemName} Updated`, issue.title, () => {
+					this.app.workspace.getLeaf(true).openFile(existingFile);
+				});
+			}
+			return { file: existingFile, outcome: bodyChanged || frontmatterChanged ? "updated" : "unchanged" };
+		}
+
+		await this.ensureParentFolder(fileName);
+		const file = await this.vault.create(fileName, content);
+		sendNotification(`New ${this.target.itemName.toLowerCase()} created`, issue.title, () => {
+			this.app.workspace.getLeaf(true).openFile(file);
+		});
+		return { file, outcome: "created" };
+	}
+
+	/** Creates the folders of a note path that uses subfolders, e.g. from the folder layout or a `{{project}}/{{iid}}` filename template. */
+	private ensureParentFolder(fileName: string): Promise<void> {
+		return this.ensureFolder(fileName.split("/").slice(0, -1).join("/"));
+	}
+
+	private async ensureFolder(path: string) {
+		const segments = path.split("/").filter((segment) => segment.length > 0);
+
+		for (let depth = 1; depth <= segments.length; depth++) {
+			const folderPath = segments.slice(0, depth).join("/");
+			if (!this.vault.getAbstractFileByPath(folderPath)) {
+				await this.vault.createFolder(folderPath).catch((error) => {
+					// Notes written in parallel may share a new folder
+					if (error.message !== "Folder already exists.") {
+						throw error;
+					}
+				});
+			}
 		}
 	}
 
-	private buildFileName(issue: ObsidianIssue): string {
-		return this.settings.outputDir + "/" + issue.filename + ".md";
+	private buildFileName(issue: ObsidianItem, suffix = ""): string {
+		const folder = renderFolder(this.settings.folderLayout, this.settings.folderTemplate, issue);
+		return normalizePath([this.target.outputDir, folder, issue.filename + suffix].join("/") + ".md");
 	}
 }
@@ -1,12 +1,30 @@
-import { addIcon, Notice, Plugin, setIcon } from "obsidian";
+import { addIcon, Editor, MarkdownFileInfo, MarkdownView, Notice, Plugin, setIcon, setTooltip } from "obsidian";
 import Filesystem from "./filesystem";
-import GitlabLoader from "./GitlabLoader/gitlab-loader";
+import GitlabLoader, { SYNC_COMPLETE_EVENT } from "./GitlabLoader/gitlab-loader";
 import gitlabIcon from "./assets/gitlab-icon.svg";
 import { GitlabIssuesSettingTab } from "./SettingsTab/settings-tab";
 import { GitlabIssuesSettings } from "./SettingsTab/settings-types";
 import { DEFAULT_SETTINGS } from "./SettingsTab/settings";
 import { logger } from "./utils/utils";
 import { GitlabIssuePostProcessor } from "./GitlabPostProcessor/gitlab-issue-postprocessor";
+import { GitlabQueryBlock } from "./GitlabPostProcessor/gitlab-query-block";
+import { createReferenceExtension } from "./GitlabPostProcessor/reference-extension";
+import FrontmatterSync from "./GitlabSync/frontmatter-sync";
+import { CreateIssueModal } from "./Modals/create-issue-modal";
+import { IssueLinkModal } from "./Modals/issue-link-modal";
+import { SyncReportModal } from "./Modals/sync-report-modal";
+import PersistentCache from "./utils/persistent-cache";
+import { CachedNotes } from "./GitlabLoader/discussion-loader";
+import { getMergeRequestTarget } from "./GitlabLoader/merge-request-loader";
+import { migrateCustomSources } from "./GitlabLoader/sources";
+import { formatSyncError, isNoteworthy, summarizeReport, SyncReport } from "./GitlabLoader/sync-report";
+import LabelLoader, { CachedLabels } from "./GitlabLoader/label-loader";
+import CardCache, { CachedResponse } from "./GitlabPostProcessor/card-cache";
+import IssueActions from "./GitlabPostProcessor/issue-actions";
+import { BOARD_VIEW_TYPE, KanbanView } from "./Views/kanban-view";
+import { MY_GITLAB_VIEW_TYPE, MyGitlabView } from "./Views/my-gitlab-view";
+import IssueSearch from "./IssueLinks/issue-search";
+import { IssueSuggest } from "./IssueLinks/issue-suggest";
 
 const GITLAB_ISSUE_CARD_CSS = `
 /* GitLab Issue Card Styles */
@@ -44,6 +62,59 @@ const GITLAB_ISSUE_CARD_CSS = `
 	background-color: #8250df;
 }
 
+.gitlab-issue-card .issue-state.merged {
+	background-color: #1f75cb;
+}
+
+.gitlab-issue-card .issue-state.active {
+	background-color: #1f883d;
+}
+
+.gitlab-issue-card .issue-state.locked {
+	background-color: #6e7781;
+}
+
+.gitlab-issue-card .merge-request-status {
+	display: flex;
+	gap: 8px;
+}
+
+.gitlab-issue-card .merge-request-pipeline.success,
+.gitlab-issue-card .merge-request-approvals.approved {
+	color: #1f883d;
+}
+
+.gitlab-issue-card .merge-request-pipeline.failed {
+	color: #cf222e;
+}
+
+.gitlab-issue-card .merge-request-pipeline.running,
+.gitlab-issue-card .merge-request-pipeline.pending {
+	color: #1f75cb;
+}
+
+.gitlab-issue-card .card-progress {
+	display: flex;
+	align-items: center;
+	gap: 8px;
+	margin-bottom: 8px;
+	font-size: 12px;
+	color: var(--text-muted);
+}
+
+.gitlab-issue-card .card-progress-track {
+	flex: 1;
+	height: 6px;
+	border-radius: 3px;
+	background-color: var(--background-modifier-border);
+	overflow: hidden;
+}
+
+.gitlab-issue-card .card-progress-bar {
+	height: 100%;
+	background-color: #1f883d;
+}
+
 .gitlab-issue-card .issue-title {
 	color: var(--text-normal);
 	text-decoration: none;
@@ -75,6 +146,29 @@ const GITLAB_ISSUE_CARD_CSS = `
 	font-size: 11px;
 }
 
+.gitlab-issue-card .issue-label.scoped {
+	display: inline-flex;
+	padding: 0;
+	border: 1px solid;
+	overflow: hidden;
+}
+
+.gitlab-issue-card .issue-label-scope,
+.gitlab-issue-card .issue-label-value {
+	padding: 1px 6px;
+}
+
+.gitlab-issue-card .issue-label-value {
+	background-color: var(--background-primary);
+	color: var(--text-normal);
+}
+
+.gitlab-issue-card .issue-cache-marker {
+	font-size: 11px;
+	color: var(--text-faint);
+	margin-top: 8px;
+}
+
 .gitlab-issue-card .issue-description {
 	color: var(--text-muted);
 	font-size: 13px;
@@ -82,6 +176,269 @@ const GITLAB_ISSUE_CARD_CSS = `
 	border-top: 1px solid var(--background-modifier-border);
 	padding-top: 8px;
 }
+
+.gitlab-issue-card .issue-actions {
+	display: flex;
+	flex-wrap: wrap;
+	gap: 4px;
+	margin-top: 8px;
+	padding-top: 8px;
+	border-top: 1px solid var(--background-modifier-border);
+}
+
+.gitlab-issue-card .issue-action {
+	font-size: 12px;
+	padding: 2px 8px;
+	height: auto;
+}
+
+.gitlab-query .issue-state {
+	padding: 2px 6px;
+	border-radius: 3px;
+	font-size: 11px;
+	font-weight: bold;
+	color: white;
+}
+
+.gitlab-query .issue-state.opened {
+	background-color: #1f883d;
+}
+
+.gitlab-query .issue-state.closed {
+	background-color: #8250df;
+}
+
+.gitlab-query .issue-label,
+.gitlab-board .issue-label {
+	display: inline-block;
+	padding: 2px 6px;
+	margin-right: 4px;
+	margin-bottom: 2px;
+	border-radius: 3px;
+	font-size: 11px;
+}
+
+.gitlab-query .issue-label.scoped,
+.gitlab-board .issue-label.scoped {
+	display: inline-flex;
+	padding: 0;
+	border: 1px solid;
+	overflow: hidden;
+}
+
+.gitlab-query .issue-label-scope,
+.gitlab-query .issue-label-value,
+.gitlab-board .issue-label-scope,
+.gitlab-board .issue-label-value {
+	padding: 1px 6px;
+}
+
+.gitlab-query .issue-label-value,
+.gitlab-board .issue-label-value {
+	background-color: var(--background-primary);
+	color: var(--text-normal);
+}
+
+.gitlab-query-table {
+	width: 100%;
+	font-size: 13px;
+}
+
+.gitlab-query-list li {
+	margin-bottom: 4px;
+}
+
+.gitlab-query-error {
+	color: var(--text-error);
+	font-size: 12px;
+}
+
+.gitlab-query-empty,
+.gitlab-query .issue-cache-marker {
+	color: var(--text-muted);
+	font-size: 12px;
+}
+
+.gitlab-issue-pill {
+	padding: 0 6px;
+	border-radius: 10px;
+	background-color: var(--background-modifier-border);
+	cursor: pointer;
+	white-space: nowrap;
+}
+
+.gitlab-issue-pill.opened {
+	background-color: rgba(31, 136, 61, 0.15);
+	color: #1f883d;
+}
+
+.gitlab-issue-pill.closed {
+	background-color: rgba(130, 80, 223, 0.15);
+	color: #8250df;
+}
+
+.gitlab-issue-pill.unresolved {
+	padding: 0;
+	background-color: transparent;
+	cursor: text;
+}
+
+.gitlab-issue-reference .gitlab-issue-card {
+	display: block;
+}
+
+.gitlab-board {
+	display: flex;
+	flex-direction: column;
+	gap: 8px;
+}
+
+.gitlab-board-toolbar {
+	display: flex;
+	align-items: center;
+	gap: 8px;
+}
+
+.gitlab-board-empty {
+	color: var(--text-muted);
+}
+
+.gitlab-board-columns {
+	display: flex;
+	align-items: flex-start;
+	gap: 12px;
+	overflow-x: auto;
+	flex: 1;
+}
+
+.gitlab-board-column {
+	flex: 0 0 260px;
+	padding: 8px;
+	border-radius: 6px;
+	background-color: var(--background-secondary);
+}
+
+.gitlab-board-column.drop-target {
+	outline: 2px dashed var(--interactive-accent);
+}
+
+.gitlab-board-column-header {
+	display: flex;
+	justify-content: space-between;
+	margin-bottom: 8px;
+	font-weight: bold;
+}
+
+.gitlab-board-count {
+	color: var(--text-muted);
+	font-weight: normal;
+}
+
+.gitlab-board-cards {
+	display: flex;
+	flex-direction: column;
+	gap: 6px;
+	min-height: 40px;
+}
+
+.gitlab-board-card {
+	padding: 8px;
+	border: 1px solid var(--background-modifier-border);
+	border-radius: 4px;
+	background-color: var(--background-primary);
+	cursor: grab;
+}
+
+.gitlab-board-card.pending {
+	opacity: 0.5;
+}
+
+.gitlab-board-card-title {
+	display: block;
+	margin-bottom: 4px;
+}
+
+.gitlab-board-card-metadata {
+	margin-bottom: 4px;
+	color: var(--text-muted);
+	font-size: 12px;
+}
+
+.gitlab-sidebar {
+	display: flex;
+	flex-direction: column;
+	gap: 8px;
+}
+
+.gitlab-sidebar-search {
+	width: 100%;
+}
+
+.gitlab-sidebar-filters,
+.gitlab-sidebar-options {
+	display: flex;
+	flex-wrap: wrap;
+	gap: 4px;
+}
+
+.gitlab-sidebar-filter {
+	font-size: 12px;
+	padding: 2px 8px;
+	height: auto;
+}
+
+.gitlab-sidebar-filter.is-active {
+	background-color: var(--interactive-accent);
+	color: var(--text-on-accent);
+}
+
+.gitlab-sidebar-empty {
+	color: var(--text-muted);
+}
+
+.gitlab-sidebar-issue {
+	display: flex;
+	align-items: flex-start;
+	gap: 4px;
+	padding: 6px 0;
+	border-bottom: 1px solid var(--background-modifier-border);
+}
+
+.gitlab-sidebar-issue.closed .gitlab-sidebar-issue-title {
+	color: var(--text-muted);
+	text-decoration: line-through;
+}
+
+.gitlab-sidebar-issue-body {
+	flex: 1;
+	min-width: 0;
+}
+
+.gitlab-sidebar-issue-metadata {
+	color: var(--text-muted);
+	font-size: 12px;
+}
+
+.gitlab-sidebar-issue-actions {
+	display: flex;
+}
+
+.gitlab-issue-suggestion-reference {
+	color: var(--text-muted);
+}
+
+.gitlab-sync-report table {
+	width: 100%;
+}
+
+.gitlab-sync-report td:not(:first-child),
+.gitlab-sync-report th:not(:first-child) {
+	text-align: right;
+}
+
+.gitlab-sync-report-errors {
+	color: var(--text-error);
+}
 `;
 
 export default class GitlabIssuesPlugin extends Plugin {
@@ -92,11 +449,30 @@ export default class GitlabIssuesPlugin extends Plugin {
 	statusBarItem: HTMLElement | null = null;
 	isLoading = false;
 	gitlabPostProcessor: GitlabIssuePostProcessor | null = null;
+	gitlabQueryBlock: GitlabQueryBlock | null = null;
+	frontmatterSync: FrontmatterSync | null = null;
+	notesCache: PersistentCache<CachedNotes>;
+	labelLoader: LabelLoader;
+	cardCache: CardCache;
+	issueActions: IssueActions;
+	issueSearch: IssueSearch;
+	lastSyncReport: SyncReport | null = null;
 
 	async onload() {
 		logger("Starting plugin");
 
 		await this.loadSettings();
+		this.notesCache = new PersistentCache(this.app.vault.adapter, `${this.manifest.dir}/notes-cache.json`);
+		this.labelLoader = new LabelLoader(
+			this.settings,
+			new PersistentCache<CachedLabels>(this.app.vault.adapter, `${this.manifest.dir}/labels-cache.json`)
+		);
+		this.cardCache = new CardCache(
+			this.settings,
+			new PersistentCache<CachedResponse>(this.app.vault.adapter, `${this.manifest.dir}/cards-cache.json`)
+		);
+		this.issueActions = new IssueActions(this.app, this.settings, this.labelLoader, this.notesCache);
+		this.issueSearch = new IssueSearch(this.app, this.settings);
 		this.addSettingTab(new GitlabIssuesSettingTab(this.app, this));
 
 		// Add CSS for GitLab issue cards
@@ -104,6 +480,10 @@ export default class GitlabIssuesPlugin extends Plugin {
 
 		// Always register the post-processor, it will check for token internally
 		this.registerGitlabPostProcessor();
+		this.registerQueryBlock();
+		this.registerView(BOARD_VIEW_TYPE, (leaf) => new KanbanView(leaf, this));
+		this.registerView(MY_GITLAB_VIEW_TYPE, (leaf) => new MyGitlabView(leaf, this));
+		this.registerEditorSuggest(new IssueSuggest(this.app, this.settings, this.issueSearch));
 
 		if (this.settings.gitlabToken) {
 			this.createOutputFolder();
@@ -112,6 +492,7 @@ export default class GitlabIssuesPlugin extends Plugin {
 			this.refreshIssuesAtStartup();
 			this.scheduleAutomaticRefresh();
 			this.addGitlabStatusBarItem();
+			this.registerFrontmatterSync();
 		}
 	}
 
@@ -120,6 +501,7 @@ export default class GitlabIssuesPlugin extends Plugin {
 			this.statusBarItem = this.addStatusBarItem();
 			this.statusBarItem.classList.add("mod-clickable");
 			setIcon(this.statusBarItem, "gitlab");
+			setTooltip(this.statusBarItem, "GitLab: not synced yet", { placement: "top" });
 			this.statusBarItem.addEventListener("click", () => {
 				if (!this.isLoading) {
 					this.fetchFromGitlab();
@@ -157,13 +539,17 @@ export default class GitlabIssuesPlugin extends Plugin {
 			DEFAULT_SETTINGS,
 			await this.loadData()
 		);
+		migrateCustomSources(this.settings);
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
 		// Update post-processor with new settings
 		if (this.gitlabPostProcessor) {
-			this.gitlabPostProcessor = new GitlabIssuePostProcessor(this.settings);
+			this.gitlabPostProcessor = new GitlabIssuePostProcessor(this.settings, this.cardCache, this.labelLoader, this.issueActions);
+		}
+		if (this.gitlabQueryBlock && this.gitlabPostProcessor) {
+			this.gitlabQueryBlock = new GitlabQueryBlock(this.settings, this.cardCache, this.labelLoader, this.gitlabPostProcessor);
 		}
 	}
 
@@ -194,6 +580,49 @@ export default class GitlabIssuesPlugin extends Plugin {
 				}
 			},
 		});
+		this.addCommand({
+			id: "create-gitlab-issue",
+			name: "Create GitLab issue",
+			editorCallback: (editor: Editor, context: MarkdownView | MarkdownFileInfo) => {
+				new CreateIssueModal(this.app, this.settings, editor, context.file, this.labelLoader).open();
+			},
+		});
+		this.addCommand({
+			id: "insert-gitlab-issue-link",
+			name: "Insert GitLab issue link",
+			editorCallback: (editor: Editor, context: MarkdownView | MarkdownFileInfo) => {
+				new IssueLinkModal(this.app, this.issueSearch, editor, context.file).open();
+			},
+		});
+		this.addCommand({
+			id: "show-gitlab-sync-report",
+			name: "Show last sync report",
+			callback: () => new SyncReportModal(this.app, this.lastSyncReport).open(),
+		});
+		this.addCommand({
+			id: "open-gitlab-board",
+			name: "Open GitLab issue board",
+			callback: () => this.openBoard(),
+		});
+		this.addCommand({
+			id: "open-my-gitlab",
+			name: "Open My GitLab panel",
+			callback: () => this.openSidebar(),
+		});
+	}
+
+	private async openBoard() {
+		const leaf = this.app.workspace.getLeavesOfType(BOARD_VIEW_TYPE)[0] ?? this.app.workspace.getLeaf(true);
+		await leaf.setViewState({ type: BOARD_VIEW_TYPE, active: true });
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	private async openSidebar() {
+		const leaf = this.app.workspace.getLeavesOfType(MY_GITLAB_VIEW_TYPE)[0] ?? this.app.workspace.getRightLeaf(false);
+		if (leaf) {
+			await leaf.setViewState({ type: MY_GITLAB_VIEW_TYPE, active: true });
+			this.app.workspace.revealLeaf(leaf);
+		}
 	}
 
 	private refreshIssuesAtStartup() {
@@ -213,6 +642,10 @@ export default class GitlabIssuesPlugin extends Plugin {
 	private createOutputFolder() {
 		const fs = new Filesystem(this.app, this.settings);
 		fs.createOutputDirectory();
+
+		if (this.settings.importMergeRequests) {
+			new Filesystem(this.app, this.settings, getMergeRequestTarget(this.settings)).createOutputDirectory();
+		}
 	}
 
 	private async fetchFromGitlab() {
@@ -223,13 +656,32 @@ export default class GitlabIssuesPlugin extends Plugin {
 		this.setLoadingState(true);
 
 		try {
-			const loader = new GitlabLoader(this.app, this.settings);
-			await loader.loadIssues();
+			const loader = new GitlabLoader(this.app, this.settings, this.notesCache, this.labelLoader);
+			const report = await loader.loadIssues();
+			// Persist the sync cursors the loader advanced
+			await this.saveSettings();
+			this.showSyncReport(report);
 		} catch (error) {
 			new Notice("Failed to update issues from Gitlab");
 			logger(`Error fetching from GitLab: ${error}`);
 		} finally {
 			this.setLoadingState(false);
+			this.app.workspace.trigger(SYNC_COMPLETE_EVENT);
+		}
+	}
+
+	private showSyncReport(report: SyncReport) {
+		this.lastSyncReport = report;
+
+		const summary = summarizeReport(report);
+		if (this.statusBarItem) {
+			const errors = report.errors.slice(0, 3).map(formatSyncError);
+			const tooltip = [`GitLab: last synced ${new Date(report.finishedAt).toLocaleTimeString()}`, summary, ...errors];
+			setTooltip(this.statusBarItem, tooltip.join("\n"), { placement: "top" });
+		}
+		// Syncs that changed nothing stay quiet, the automatic refresh would otherwise notify every few minutes
+		if (isNoteworthy(report)) {
+			new Notice(`GitLab sync: ${summary}${report.errors.length > 0 ? `. Run "Show last sync report" for details.` : ""}`);
 		}
 	}
 
@@ -248,13 +700,33 @@ export default class GitlabIssuesPlugin extends Plugin {
 	}
 
 	private registerGitlabPostProcessor() {
-		this.gitlabPostProcessor = new GitlabIssuePostProcessor(this.settings);
+		this.gitlabPostProcessor = new GitlabIssuePostProcessor(this.settings, this.cardCache, this.labelLoader, this.issueActions);
 		this.registerMarkdownPostProcessor((element, context) => {
 			// Post-processor should be synchronous, so we handle async operations internally
 			if (this.gitlabPostProcessor) {
 				this.gitlabPostProcessor.processElement(element, context);
 			}
 		});
+		this.registerEditorExtension(createReferenceExtension(() => this.gitlabPostProcessor));
+	}
+
+	private registerQueryBlock() {
+		if (this.gitlabPostProcessor) {
+			this.gitlabQueryBlock = new GitlabQueryBlock(this.settings, this.cardCache, this.labelLoader, this.gitlabPostProcessor);
+		}
+		this.registerMarkdownCodeBlockProcessor("gitlab", (source, element) => {
+			this.gitlabQueryBlock?.render(source, element);
+		});
+	}
+
+	private registerFrontmatterSync() {
+		this.frontmatterSync = new FrontmatterSync(this.app, this.settings);
+		this.app.workspace.onLayoutReady(() => this.frontmatterSync?.initialize());
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file, data, cache) => {
+				this.frontmatterSync?.handleMetadataChange(file, cache);
+			})
+		);
 	}
 
 	private addStyles() {
@@ -0,0 +1,50 @@
+import { DataAdapter } from "obsidian";
+import { logger } from "./utils";
+
+/**
+ * A small JSON file backed key/value store kept in the plugin folder, for data that is too large
+ * or too volatile to live in the plugin settings.
+ */
+export default class PersistentCache<T> {
+	private entries: Record<string, T> = {};
+	private loaded: Promise<void> | null = null;
+
+	constructor(private adapter: DataAdapter, private path: string) {}
+
+	load(): Promise<void> {
+		if (!this.loaded) {
+			this.loaded = this.adapter
+				.read(this.path)
+				.then((content) => {
+					this.entries = JSON.parse(content);
+				})
+				.catch(() => {
+					// A missing or corrupt cache file only means everything gets fetched again
+					this.entries = {};
+				});
+		}
+		return this.loaded;
+	}
+
+	get(key: string): T | undefined {
+		return this.entries[key];
+	}
+
+	set(key: string, value: T) {
+		this.entries[key] = value;
+	}
+
+	delete(key: string) {
+		delete this.entries[key];
+	}
+
+	keys(): Array<string> {
+		return Object.keys(this.entries);
+	}
+
+	save(): Promise<void> {
+		return this.adapter
+			.write(this.path, JSON.stringify(this.entries))
+			.catch((error) => logger(`Could not write cache ${this.path}: ${error.message}`));
+	}
+}
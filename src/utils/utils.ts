@@ -1,9 +1,91 @@
 import { Notice } from "obsidian";
+import { compile, HelperDelegate } from "handlebars";
+import { FolderLayout } from "../SettingsTab/settings-types";
 
 export function sanitizeFileName(value: string) {
 	return value.replace(/[:]/g, "").replace(/[*"/\\<>|?]/g, "-");
 }
 
+export const DEFAULT_FILENAME_TEMPLATE = "{{title}}";
+
+function sanitizeValues(value: unknown): unknown {
+	if (typeof value === "string") {
+		return sanitizeFileName(value);
+	}
+	if (Array.isArray(value)) {
+		return value.map(sanitizeValues);
+	}
+	if (value !== null && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [key, sanitizeValues(entry)])
+		);
+	}
+	return value;
+}
+
+const pathTemplates = new Map<string, HandlebarsTemplateDelegate>();
+
+interface PathContext {
+	iid?: number;
+	references?: unknown;
+	milestone?: { title?: string } | null;
+}
+
+/** The project path of an issue or merge request, e.g. `group/sub/app`, taken from its full reference. */
+function getProjectPath(item: PathContext): string | undefined {
+	const fullReference = typeof item.references === "object" && item.references !== null
+		? (item.references as { full?: string }).full
+		: undefined;
+	return fullReference?.replace(/[#!]\d+$/, "");
+}
+
+function renderPath(pattern: string, item: PathContext): string {
+	const context = sanitizeValues({
+		...item,
+		project: getProjectPath(item),
+	});
+
+	let template = pathTemplates.get(pattern);
+	if (!template) {
+		template = compile(pattern, { noEscape: true });
+		pathTemplates.set(pattern, template);
+	}
+
+	return template(context)
+		.split("/")
+		.map((segment) => segment.trim())
+		.filter((segment) => segment.length > 0 && segment !== "." && segment !== "..")
+		.join("/");
+}
+
+/**
+ * Renders a note path (without extension) from a Handlebars pattern such as `{{project}}/{{iid}}`.
+ * Values are sanitized before rendering, so only slashes written in the pattern create subfolders.
+ * `project` is the project path, taken from the item's full reference.
+ */
+export function renderFileName(pattern: string, item: PathContext): string {
+	return renderPath(pattern, item) || String(item.iid);
+}
+
+/** Renders the subfolder of the output folder a note belongs in, following the folder layout setting. */
+export function renderFolder(layout: FolderLayout, folderTemplate: string, item: PathContext): string {
+	const projectSegments = getProjectPath(item)?.split("/").map(sanitizeFileName) ?? [];
+
+	switch (layout) {
+		case "project":
+			return projectSegments[projectSegments.length - 1] ?? "";
+		case "group-project":
+			return projectSegments.join("/");
+		case "milestone":
+			return sanitizeFileName(item.milestone?.title || "No milestone");
+		case "template":
+			return renderPath(folderTemplate, item);
+		case "flat":
+		default:
+			return "";
+	}
+}
+
 export function logger(message: string) {
 	const pluginNamePrefix = "Gitlab Issues: ";
 
@@ -11,12 +93,23 @@ export function logger(message: string) {
 }
 
 export const DEFAULT_TEMPLATE = `---
+kind: issue
 id: {{id}}
+iid: {{iid}}
+projectId: {{project_id}}
 title: {{{title}}}
+state: {{state}}
+labels: {{{json labels}}}
+assignees: {{{json (pluck assignees "username")}}}
+milestone: {{{json milestone.title}}}
 dueDate: {{due_date}}
+updatedAt: {{updated_at}}
 webUrl: {{web_url}}
 project: {{references.full}}
+connection: {{{json connection}}}
+source: {{{json source}}}
 ---
+<!-- gitlab:start -->
 
 ### {{{title}}}
 ##### Due on {{due_date}}
@@ -24,8 +117,114 @@ project: {{references.full}}
 {{{description}}}
 
 [View On Gitlab]({{web_url}})
+
+{{#if notes}}
+
+### Discussion
+{{#each notes}}
+{{#unless system}}
+
+**{{author.name}}** on {{created_at}}
+
+{{{body}}}
+{{#each replies}}
+
+↳ **{{author.name}}** on {{created_at}}
+
+{{{body}}}
+{{/each}}
+{{/unless}}
+{{/each}}
+{{/if}}
+<!-- gitlab:end -->
 `;
 
+export const DEFAULT_MERGE_REQUEST_TEMPLATE = `---
+kind: merge_request
+id: {{id}}
+iid: {{iid}}
+projectId: {{project_id}}
+title: {{{title}}}
+state: {{state}}
+draft: {{draft}}
+sourceBranch: {{{json source_branch}}}
+targetBranch: {{{json target_branch}}}
+pipelineStatus: {{head_pipeline.status}}
+approved: {{approvals.approved}}
+approvedBy: {{{json (pluck approvals.approved_by "username")}}}
+reviewers: {{{json (pluck reviewers "username")}}}
+labels: {{{json labels}}}
+linkedIssues: {{{json (pluck linked_issues "web_url")}}}
+updatedAt: {{updated_at}}
+webUrl: {{web_url}}
+project: {{references.full}}
+connection: {{{json connection}}}
+source: {{{json source}}}
+---
+<!-- gitlab:start -->
+
+### {{{title}}}
+##### \`{{source_branch}}\` into \`{{target_branch}}\`
+
+Pipeline: {{head_pipeline.status}} | Approvals: {{approvals.approved_by.length}}/{{approvals.approvals_required}}
+
+{{{description}}}
+{{#if linked_issues}}
+
+#### Linked issues
+{{#each linked_issues}}
+- [{{{title}}}]({{web_url}})
+{{/each}}
+{{/if}}
+
+[View On Gitlab]({{web_url}})
+<!-- gitlab:end -->
+`;
+
+export const MANAGED_REGION_START = "<!-- gitlab:start -->";
+export const MANAGED_REGION_END = "<!-- gitlab:end -->";
+
+/** The region ends at the last end marker, since descriptions and discussions may quote the markers themselves. */
+function findManagedRegion(content: string): { start: number, end: number } | null {
+	const start = content.indexOf(MANAGED_REGION_START);
+	const end = content.lastIndexOf(MANAGED_REGION_END);
+	return start === -1 || end < start ? null : { start, end: end + MANAGED_REGION_END.length };
+}
+
+/**
+ * Replaces the managed region of an existing note, between the `gitlab:start` and `gitlab:end`
+ * markers, with the one of freshly rendered content, keeping everything outside it. Returns null
+ * when either side has no managed region, so notes without markers are never rewritten.
+ */
+export function replaceManagedRegion(existingContent: string, renderedContent: string): string | null {
+	const existingRegion = findManagedRegion(existingContent);
+	const renderedRegion = findManagedRegion(renderedContent);
+
+	if (!existingRegion || !renderedRegion) {
+		return null;
+	}
+
+	return existingContent.slice(0, existingRegion.start)
+		+ renderedContent.slice(renderedRegion.start, renderedRegion.end)
+		+ existingContent.slice(existingRegion.end);
+}
+
+/**
+ * Helpers available to issue templates:
+ * - `json` renders a value as JSON, which is also valid YAML for frontmatter lists and strings.
+ * - `pluck` maps a list of objects to one of their properties, e.g. `(pluck assignees "username")`.
+ */
+const TEMPLATE_HELPERS: Record<string, HelperDelegate> = {
+	json: (value: unknown) => JSON.stringify(value ?? null),
+	pluck: (list: Array<Record<string, unknown>> | undefined, key: string) =>
+		(list ?? []).map((item) => item[key]),
+};
+
+export function compileTemplate(rawTemplate: string): HandlebarsTemplateDelegate {
+	const template = compile(rawTemplate);
+	return (context, options) => template(context, { ...options, helpers: TEMPLATE_HELPERS });
+}
+
 export function sendNotification(title: string, message: string, onClick?: () => void ) {
 	if (window.Notification) {
 		const notification = new Notification(title, { body: message });
@@ -0,0 +1,100 @@
+import {
+	findConnection,
+	findConnectionForUrl,
+	getConnection,
+	getItemKey,
+	getSettingsForItem,
+	getSettingsForUrl,
+	isConnectionUsed,
+	renameConnection,
+	withConnection
+} from "../../src/GitlabLoader/connections";
+import {createSource} from "../../src/GitlabLoader/sources";
+import {DEFAULT_SETTINGS} from "../../src/SettingsTab/settings";
+import {GitlabIssuesSettings} from "../../src/SettingsTab/settings-types";
+
+const work = {name: 'Work', url: 'https://gitlab.example.com', token: 'work-token', note: ''};
+
+const mockSettings: GitlabIssuesSettings = {
+	...DEFAULT_SETTINGS,
+	gitlabToken: 'default-token',
+	connections: [work],
+};
+
+describe('connections', () => {
+	it('should find the default connection by an empty name', () => {
+		expect(getConnection(mockSettings, '')).toEqual({
+			name: 'Default',
+			url: 'https://gitlab.com',
+			token: 'default-token',
+			note: '',
+		});
+	});
+
+	it('should find connections by name regardless of case', () => {
+		expect(getConnection(mockSettings, 'work')).toBe(work);
+	});
+
+	it('should reject unknown connection names', () => {
+		expect(() => getConnection(mockSettings, 'Home')).toThrow('Unknown GitLab connection: Home');
+	});
+
+	it('should find the connection of a URL by its host', () => {
+		expect(findConnectionForUrl(mockSettings, 'https://gitlab.example.com/group/app/-/issues/1')).toBe(work);
+		expect(findConnectionForUrl(mockSettings, 'https://github.com/group/app/issues/1')).toBeNull();
+		expect(findConnectionForUrl(mockSettings, 'not a url')).toBeNull();
+	});
+
+	it('should scope the settings to a connection', () => {
+		const workSettings = withConnection(mockSettings, work);
+
+		expect(workSettings.gitlabApiUrl()).toBe('https://gitlab.example.com/api/v4');
+		expect(workSettings.gitlabToken).toBe('work-token');
+		expect(mockSettings.gitlabToken).toBe('default-token');
+	});
+
+	it('should keep the settings for URLs of the default or an unknown instance', () => {
+		expect(getSettingsForUrl(mockSettings, 'https://gitlab.com/group/app/-/issues/1')).toBe(mockSettings);
+		expect(getSettingsForUrl(mockSettings, 'https://github.com/group/app')).toBe(mockSettings);
+	});
+
+	it('should prefer the recorded connection of an item over its host', () => {
+		const bot = {name: 'Bot', url: 'https://gitlab.com', token: 'bot-token', note: ''};
+		const settings = {...mockSettings, connections: [work, bot]};
+		const url = 'https://gitlab.com/group/app/-/issues/1';
+
+		expect(getSettingsForItem(settings, 'Bot', url).gitlabToken).toBe('bot-token');
+		expect(getSettingsForItem(settings, null, url).gitlabToken).toBe('default-token');
+	});
+
+	it('should fall back to the connection serving an item whose connection is gone', () => {
+		expect(findConnection(mockSettings, 'Removed')).toBeNull();
+		expect(() => getConnection(mockSettings, 'Removed')).toThrow('Unknown GitLab connection: Removed');
+		expect(getSettingsForItem(mockSettings, 'Removed', 'https://gitlab.example.com/group/app/-/issues/1').gitlabToken)
+			.toBe('work-token');
+	});
+
+	it('should tell items of other instances with the same id apart', () => {
+		expect(getItemKey(mockSettings, 'work', '', 5)).toBe('work:5');
+		expect(getItemKey(mockSettings, null, 'https://gitlab.example.com/group/app/-/issues/1', 5)).toBe('work:5');
+		expect(getItemKey(mockSettings, 'Removed', 'https://gitlab.com/group/app/-/issues/1', 5)).toBe('default:5');
+		expect(getItemKey(mockSettings, undefined, undefined, 5)).toBe('default:5');
+	});
+
+	it('should rename the references to a renamed connection', () => {
+		const settings = {
+			...mockSettings,
+			connectionName: 'work',
+			sources: [
+				{...createSource('project', '1'), connection: 'Work'},
+				createSource('project', '2'),
+			],
+		};
+
+		expect(isConnectionUsed(settings, 'Work')).toBe(true);
+		expect(isConnectionUsed(settings, 'Other')).toBe(false);
+		const renamed = renameConnection(settings, 'Work', 'Office');
+		expect(renamed.connectionName).toBe('Office');
+		expect(renamed.sources.map((source) => source.connection)).toEqual(['Office', '']);
+	});
+});
@@ -0,0 +1,104 @@
+import GitlabApi from "../../src/GitlabLoader/gitlab-api";
+import DiscussionLoader, {CachedNotes} from "../../src/GitlabLoader/discussion-loader";
+import {ObsidianIssue} from "../../src/GitlabLoader/issue-types";
+import {GitlabConnection, GitlabIssuesSettings} from "../../src/SettingsTab/settings-types";
+import PersistentCache from "../../src/utils/persistent-cache";
+
+const mockLoadAll = jest.spyOn(GitlabApi, 'loadAll');
+
+const mockSettings = {
+	gitlabUrl: 'https://gitlab.com',
+	gitlabToken: 'test-token',
+	connections: [] as GitlabConnection[],
+	maxPages: 20,
+	gitlabApiUrl: () => 'https://gitlab.com/api/v4',
+} as GitlabIssuesSettings;
+
+const author = {id: 1, name: 'Jane', username: 'jane'};
+
+describe('DiscussionLoader', () => {
+	let cache: PersistentCache<CachedNotes>;
+	let adapter: { read: jest.Mock, write: jest.Mock };
+
+	beforeEach(() => {
+		adapter = {
+			read: jest.fn().mockRejectedValue(new Error('missing')),
+			write: jest.fn().mockResolvedValue(undefined),
+		};
+		cache = new PersistentCache<CachedNotes>(adapter as any, 'notes-cache.json');
+	});
+
+	afterEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('should attach discussions as threaded notes and cache them', async () => {
+		const issue = {id: 10, iid: 3, project_id: 7, updated_at: '2024-05-01', user_notes_count: 2} as ObsidianIssue;
+		mockLoadAll.mockResolvedValue({
+			items: [{
+				id: 'a',
+				individual_note: false,
+				notes: [
+					{id: 1, body: 'Question', author, system: false},
+					{id: 2, body: 'Answer', author, system: false},
+				],
+			}],
+			complete: true,
+		});
+
+		await new DiscussionLoader(mockSettings, cache).attachNotes([issue]);
+
+		expect(mockLoadAll).toHaveBeenCalledWith(
+			'https://gitlab.com/api/v4/projects/7/issues/3/discussions',
+			mockSettings.gitlabToken,
+			mockSettings.maxPages
+		);
+		expect(issue.notes).toEqual([
+			{id: 1, body: 'Question', author, system: false, replies: [{id: 2, body: 'Answer', author, system: false}]},
+		]);
+		expect(cache.get('default:10')).toEqual({updated_at: '2024-05-01', user_notes_count: 2, notes: issue.notes});
+		expect(adapter.write).toHaveBeenCalled();
+	});
+
+	it('should reuse cached notes while the issue is unchanged', async () => {
+		const cachedNotes = [{id: 1, body: 'Cached', author, system: false, replies: []}] as any;
+		adapter.read.mockResolvedValue(JSON.stringify({
+			'default:10': {updated_at: '2024-05-01', user_notes_count: 1, notes: cachedNotes},
+		}));
+		const issue = {id: 10, iid: 3, project_id: 7, updated_at: '2024-05-01', user_notes_count: 1} as ObsidianIssue;
+
+		await new DiscussionLoader(mockSettings, cache).attachNotes([issue]);
+
+		expect(mockLoadAll).not.toHaveBeenCalled();
+		expect(issue.notes).toEqual(cachedNotes);
+	});
+
+	it('should keep the cached notes when loading new ones fails', async () => {
+		const cachedNotes = [{id: 1, body: 'Cached', author, system: false, replies: []}] as any;
+		adapter.read.mockResolvedValue(JSON.stringify({
+			'default:10': {updated_at: '2024-04-01', user_notes_count: 1, notes: cachedNotes},
+		}));
+		mockLoadAll.mockRejectedValue(new Error('Service Unavailable'));
+		const issue = {id: 10, iid: 3, project_id: 7, updated_at: '2024-05-01', user_notes_count: 2} as ObsidianIssue;
+		const uncached = {id: 11, iid: 4, project_id: 7, updated_at: '2024-05-01', user_notes_count: 2} as ObsidianIssue;
+
+		await new DiscussionLoader(mockSettings, cache).attachNotes([issue, uncached]);
+
+		expect(issue.notes).toEqual(cachedNotes);
+		expect(issue.notesUnavailable).toBeUndefined();
+		expect(uncached.notes).toBeUndefined();
+		expect(uncached.notesUnavailable).toBe(true);
+	});
+
+	it('should refetch notes when the note count changed', async () => {
+		adapter.read.mockResolvedValue(JSON.stringify({
+			'default:10': {updated_at: '2024-05-01', user_notes_count: 1, notes: []},
+		}));
+		mockLoadAll.mockResolvedValue({items: [], complete: true});
+		const issue = {id: 10, iid: 3, project_id: 7, updated_at: '2024-05-01', user_notes_count: 2} as ObsidianIssue;
+
+		await new DiscussionLoader(mockSettings, cache).attachNotes([issue]);
+
+		expect(mockLoadAll).toHaveBeenCalled();
+	});
+});
@@ -1,8 +1,21 @@
 import {RequestUrlParam, RequestUrlResponse} from 'obsidian';
 import * as ObsidianMock from 'obsidian';
 import GitlabApi from "../../src/GitlabLoader/gitlab-api";
+import {
+	AuthenticationError,
+	NetworkError,
+	NotFoundError,
+	RateLimitError,
+	ServerError,
+} from "../../src/GitlabLoader/gitlab-errors";
 
 const mockRequestUrl = jest.spyOn(ObsidianMock, 'requestUrl');
+// Retries and rate limit pauses are not actually waited for
+const mockWait = jest.spyOn(GitlabApi as any, 'wait').mockResolvedValue(undefined);
+
+function response(status: number, text = '', headers: Record<string, string> = {}): RequestUrlResponse {
+	return { status, json: Promise.resolve(text ? null : []), text, headers } as unknown as RequestUrlResponse;
+}
 
 describe('GitlabApi', () => {
 	const mockUrl = 'https://gitlab.com/api/v4/issues';
@@ -10,6 +23,7 @@ describe('GitlabApi', () => {
 	const mockParams: RequestUrlParam = {
 		url: mockUrl,
 		headers: { 'PRIVATE-TOKEN': mockToken },
+		throw: false,
 	};
 
 	afterEach(() => {
@@ -43,4 +57,190 @@ describe('GitlabApi', () => {
 		await expect(GitlabApi.load(mockUrl, mockToken)).rejects.toThrow('Not Found');
 		expect(mockRequestUrl).toHaveBeenCalledWith(mockParams);
 	});
+
+	it('should send a JSON body and accept a 201 response when creating', async () => {
+		const mockIssue = { id: 1, title: 'New Issue' };
+		mockRequestUrl.mockResolvedValue({ status: 201, json: mockIssue, text: '' } as unknown as RequestUrlResponse);
+
+		const result = await GitlabApi.create(`${mockUrl}`, mockToken, { title: 'New Issue' });
+
+		expect(mockRequestUrl).toHaveBeenCalledWith({
+			...mockParams,
+			method: 'POST',
+			contentType: 'application/json',
+			body: JSON.stringify({ title: 'New Issue' }),
+		});
+		expect(result).toEqual(mockIssue);
+	});
+
+	describe('errors and retries', () => {
+		let consoleLogSpy: jest.SpyInstance;
+
+		beforeEach(() => {
+			consoleLogSpy = jest.spyOn(console, 'log').mockImplementation();
+		});
+
+		afterEach(() => {
+			consoleLogSpy.mockRestore();
+			mockRequestUrl.mockReset();
+		});
+
+		it('should raise typed errors with the message GitLab sent', async () => {
+			mockRequestUrl.mockResolvedValueOnce(response(404, '{"message":"404 Project Not Found"}'));
+			const notFound = GitlabApi.load(mockUrl, mockToken);
+			await expect(notFound).rejects.toBeInstanceOf(NotFoundError);
+			await expect(notFound).rejects.toMatchObject({ status: 404, message: '404 Project Not Found', url: mockUrl });
+
+			mockRequestUrl.mockResolvedValueOnce(response(401, '{"message":"401 Unauthorized"}'));
+			await expect(GitlabApi.load(mockUrl, mockToken)).rejects.toBeInstanceOf(AuthenticationError);
+		});
+
+		it('should list validation errors by field', async () => {
+			mockRequestUrl.mockResolvedValueOnce(response(400, '{"message":{"title":["can\'t be blank"]}}'));
+
+			await expect(GitlabApi.create(mockUrl, mockToken, {})).rejects.toThrow("title can't be blank");
+		});
+
+		it('should retry server errors with exponential backoff', async () => {
+			mockRequestUrl
+				.mockResolvedValueOnce(response(502, '<html>Bad Gateway</html>'))
+				.mockResolvedValueOnce(response(503))
+				.mockResolvedValueOnce(response(200));
+
+			await expect(GitlabApi.load(mockUrl, mockToken)).resolves.toEqual([]);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(3);
+			expect(mockWait.mock.calls).toEqual([[1000], [2000]]);
+		});
+
+		it('should give up after three retries', async () => {
+			mockRequestUrl.mockResolvedValue(response(500));
+
+			await expect(GitlabApi.load(mockUrl, mockToken)).rejects.toBeInstanceOf(ServerError);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(4);
+		});
+
+		it('should not repeat a failed create', async () => {
+			mockRequestUrl.mockResolvedValueOnce(response(500));
+
+			await expect(GitlabApi.create(mockUrl, mockToken, {})).rejects.toBeInstanceOf(ServerError);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+		});
+
+		it('should wait as long as Retry-After asks when rate limited', async () => {
+			mockRequestUrl
+				.mockResolvedValueOnce(response(429, 'Retry later', { 'Retry-After': '7' }))
+				.mockResolvedValueOnce(response(200));
+
+			await GitlabApi.create(mockUrl, mockToken, {});
+
+			expect(mockWait).toHaveBeenCalledWith(7000);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(2);
+		});
+
+		it('should not wait out long rate limits', async () => {
+			mockRequestUrl.mockResolvedValueOnce(response(429, '', { 'Retry-After': '3600' }));
+
+			await expect(GitlabApi.load(mockUrl, mockToken)).rejects.toBeInstanceOf(RateLimitError);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+		});
+
+		it('should hold requests once the rate limit is used up', async () => {
+			const reset = Math.floor(Date.now() / 1000) + 30;
+			mockRequestUrl
+				.mockResolvedValueOnce(response(200, '', { 'RateLimit-Remaining': '0', 'RateLimit-Reset': String(reset) }))
+				.mockResolvedValueOnce(response(200));
+
+			await GitlabApi.load(mockUrl, mockToken);
+			expect(mockWait).not.toHaveBeenCalled();
+
+			await GitlabApi.load(mockUrl, mockToken);
+			expect(mockWait).toHaveBeenCalledTimes(1);
+			expect(mockWait.mock.calls[0][0]).toBeGreaterThan(25 * 1000);
+			(GitlabApi as any).pausedUntil = 0;
+		});
+
+		it('should raise network errors after retrying', async () => {
+			mockRequestUrl.mockRejectedValue(new Error('net::ERR_INTERNET_DISCONNECTED'));
+
+			const request = GitlabApi.load(mockUrl, mockToken);
+			await expect(request).rejects.toBeInstanceOf(NetworkError);
+			await expect(request).rejects.toMatchObject({ status: null, message: 'Could not reach GitLab: net::ERR_INTERNET_DISCONNECTED' });
+			expect(mockRequestUrl).toHaveBeenCalledTimes(4);
+		});
+
+		it('should run at most four requests at once', async () => {
+			let running = 0;
+			let mostRunning = 0;
+			mockRequestUrl.mockImplementation((async () => {
+				running++;
+				mostRunning = Math.max(mostRunning, running);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				running--;
+				return response(200);
+			}) as any);
+
+			await Promise.all(Array.from({ length: 10 }, () => GitlabApi.load(mockUrl, mockToken)));
+
+			expect(mostRunning).toBe(4);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(10);
+		});
+	});
+
+	describe('loadAll', () => {
+		const pagedUrl = `${mockUrl}?state=opened`;
+
+		it('should follow the Link header until there is no next page', async () => {
+			mockRequestUrl
+				.mockResolvedValueOnce({
+					status: 200,
+					json: [{ id: 1 }],
+					headers: { link: `<${pagedUrl}&per_page=100&page=2>; rel="next", <${pagedUrl}&per_page=100&page=1>; rel="first"` },
+				} as unknown as RequestUrlResponse)
+				.mockResolvedValueOnce({
+					status: 200,
+					json: [{ id: 2 }],
+					headers: {},
+				} as unknown as RequestUrlResponse);
+
+			const result = await GitlabApi.loadAll(pagedUrl, mockToken, 10);
+
+			expect(mockRequestUrl).toHaveBeenNthCalledWith(1, { url: `${pagedUrl}&per_page=100`, headers: mockParams.headers, throw: false });
+			expect(mockRequestUrl).toHaveBeenNthCalledWith(2, { url: `${pagedUrl}&per_page=100&page=2`, headers: mockParams.headers, throw: false });
+			expect(result).toEqual({ items: [{ id: 1 }, { id: 2 }], complete: true });
+		});
+
+		it('should fall back to the X-Next-Page header', async () => {
+			mockRequestUrl
+				.mockResolvedValueOnce({
+					status: 200,
+					json: [{ id: 1 }],
+					headers: { 'X-Next-Page': '2' },
+				} as unknown as RequestUrlResponse)
+				.mockResolvedValueOnce({
+					status: 200,
+					json: [{ id: 2 }],
+					headers: { 'X-Next-Page': '' },
+				} as unknown as RequestUrlResponse);
+
+			const result = await GitlabApi.loadAll(pagedUrl, mockToken, 10);
+
+			expect(mockRequestUrl).toHaveBeenNthCalledWith(2, { url: `${pagedUrl}&per_page=100&page=2`, headers: mockParams.headers, throw: false });
+			expect(result).toEqual({ items: [{ id: 1 }, { id: 2 }], complete: true });
+		});
+
+		it('should stop at the page limit and report an incomplete result', async () => {
+			mockRequestUrl.mockResolvedValue({
+				status: 200,
+				json: [{ id: 1 }],
+				headers: { 'x-next-page': '2' },
+			} as unknown as RequestUrlResponse);
+			const consoleLogSpy = jest.spyOn(console, 'log').mockImplementation();
+
+			const result = await GitlabApi.loadAll(pagedUrl, mockToken, 1);
+
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+			expect(result).toEqual({ items: [{ id: 1 }], complete: false });
+			consoleLogSpy.mockRestore();
+		});
+	});
 });
@@ -5,34 +5,64 @@ import GitlabLoader from "../../src/GitlabLoader/gitlab-loader";
 import GitlabApi from "../../src/GitlabLoader/gitlab-api";
 import {Issue} from "../../src/GitlabLoader/issue-types";
 import {GitlabIssue} from "../../src/GitlabLoader/issue";
+import {createSource} from "../../src/GitlabLoader/sources";
+import {NotFoundError} from "../../src/GitlabLoader/gitlab-errors";
 
-const mockPurgeExistingIssues = jest.fn();
-const mockProcessIssues = jest.fn();
+const writeSummary = {outcomes: new Map(), purged: 0, errors: [], templateFile: '', templateError: null};
+const mockProcessIssues = jest.fn().mockResolvedValue(writeSummary);
+const mockFindNote = jest.fn();
+const mockSaveOrUpdateNote = jest.fn();
 const mockFileSystem = jest.spyOn(Filesystem, 'default').mockReturnValue({
-	purgeExistingIssues: mockPurgeExistingIssues,
-	processIssues: mockProcessIssues
+	processIssues: mockProcessIssues,
+	findNote: mockFindNote,
+	saveOrUpdateNote: mockSaveOrUpdateNote,
 } as any);
 
-const mockLoad = jest.spyOn(GitlabApi, "load");
+const mockLoadAll = jest.spyOn(GitlabApi, "loadAll");
 
 const mockSettings: GitlabIssuesSettings = {
 	gitlabUrl: 'https://gitlab.com',
 	gitlabToken: 'test-token',
+	connections: [],
+	connectionName: '',
+	defaultProject: '',
 	gitlabIssuesLevel: 'project',
 	gitlabAppId: '12345',
+	sources: [],
 	templateFile: 'template.md',
 	outputDir: '/Gitlab Issues/',
 	filter: 'due_date=month',
 	showIcon: false,
 	purgeIssues: true,
+	purgeMode: 'delete',
+	archiveDir: '/Gitlab Archive/',
 	refreshOnStartup: true,
 	intervalOfRefresh: "15",
+	maxPages: 20,
+	cardCacheMinutes: 5,
+	incrementalSync: false,
+	fullSyncInterval: "24",
+	syncState: {},
+	twoWaySync: false,
+	importNotes: false,
+	importMergeRequests: false,
+	mergeRequestOutputDir: '/Gitlab Merge Requests/',
+	mergeRequestTemplateFile: '',
+	mergeRequestFilter: 'state=opened',
+	filenameTemplate: '{{title}}',
+	folderLayout: 'flat',
+	folderTemplate: '',
+	boardGrouping: 'state',
+	boardLabels: 'workflow::*',
+	issueLinkFormat: 'wikilink',
+	issueSuggestPrefix: 'gl#',
 	gitlabApiUrl(): string {
 		return `${this.gitlabUrl}/api/v4`;
 	}
 };
 
-const mockApp = {} as App;
+const mockGetFileCache = jest.fn();
+const mockApp = {metadataCache: {getFileCache: mockGetFileCache}} as unknown as App;
 
 describe('GitlabLoader', () => {
 	let gitlabLoader: GitlabLoader;
@@ -66,23 +96,505 @@ describe('GitlabLoader', () => {
 		expect(gitlabLoader.getUrl()).toBe(expectedUrl);
 	});
 
+	it('should encode the filter of the single scope', () => {
+		mockSettings.gitlabIssuesLevel = 'project';
+		mockSettings.filter = 'labels=In Progress';
+
+		expect(gitlabLoader.getUrl()).toBe(`${mockSettings.gitlabApiUrl()}/projects/12345/issues?labels=In%20Progress`);
+
+		mockSettings.filter = 'due_date=month';
+	});
+
+	it('should construct merge request lists for every custom source', () => {
+		mockSettings.gitlabIssuesLevel = 'custom';
+		mockSettings.sources = [createSource('project', '1'), createSource('group', '2')];
+
+		expect(gitlabLoader.getMergeRequestLists()).toEqual([
+			{name: 'Project 1 merge requests', path: '/projects/1/merge_requests', connection: ''},
+			{name: 'Group 2 merge requests', path: '/groups/2/merge_requests', connection: ''},
+		]);
+
+		mockSettings.gitlabIssuesLevel = 'personal';
+		mockSettings.sources = [];
+		expect(gitlabLoader.getMergeRequestLists()).toEqual([
+			{name: 'Your issues merge requests', path: '/merge_requests', connection: mockSettings.connectionName},
+		]);
+	});
+
 	it('should load issues and process them', async () => {
 		const mockIssues = [
 			{id: 1, title: 'Issue 1', description: '', due_date: '', web_url: '', references: ''},
 			{id: 2, title: 'Issue 2', description: '', due_date: '', web_url: '', references: ''},
 		] as Issue[];
 
-		mockLoad.mockResolvedValue(mockIssues);
+		mockLoadAll.mockResolvedValue({items: mockIssues, complete: true});
 
 		await gitlabLoader.loadIssues();
 
-		expect(GitlabApi.load).toHaveBeenCalledWith(
+		expect(GitlabApi.loadAll).toHaveBeenCalledWith(
 			encodeURI(gitlabLoader.getUrl()),
-			mockSettings.gitlabToken
+			mockSettings.gitlabToken,
+			mockSettings.maxPages
+		);
+		expect(mockProcessIssues).toHaveBeenCalledWith(
+			expect.arrayContaining([expect.any(GitlabIssue)]),
+			true
 		);
-		expect(mockPurgeExistingIssues).toHaveBeenCalled();
+	});
+
+	it('should not purge when the page limit truncated the result', async () => {
+		const mockIssues = [
+			{id: 1, title: 'Issue 1', description: '', due_date: '', web_url: '', references: ''},
+		] as Issue[];
+
+		mockLoadAll.mockResolvedValue({items: mockIssues, complete: false});
+
+		await gitlabLoader.loadIssues();
+
 		expect(mockProcessIssues).toHaveBeenCalledWith(
-			expect.arrayContaining([expect.any(GitlabIssue)])
+			expect.arrayContaining([expect.any(GitlabIssue)]),
+			false
 		);
 	});
+
+	describe('sync report', () => {
+		beforeEach(() => {
+			mockSettings.gitlabIssuesLevel = 'project';
+		});
+
+		it('should count the notes written for the source', async () => {
+			const mockIssues = [
+				{id: 1, title: 'Issue 1', description: '', due_date: '', web_url: '', references: ''},
+				{id: 2, title: 'Issue 2', description: '', due_date: '', web_url: '', references: ''},
+			] as Issue[];
+			mockLoadAll.mockResolvedValue({items: mockIssues, complete: true});
+			mockProcessIssues.mockResolvedValueOnce({
+				outcomes: new Map([['default:1', 'created'], ['default:2', 'unchanged']]),
+				purged: 1,
+				errors: [{kind: 'template', source: 'Issue 3', message: 'Template error: missing helper'}],
+				templateFile: 'template.md',
+				templateError: null,
+			});
+
+			const report = await gitlabLoader.loadIssues();
+
+			expect(report.sources).toEqual([
+				{source: 'Project 12345', fetched: 2, created: 1, updated: 0, unchanged: 1, purged: 1},
+			]);
+			expect(report.errors).toEqual([
+				{kind: 'template', source: 'Issue 3', status: null, message: 'Template error: missing helper'},
+			]);
+		});
+
+		it('should report failed requests with their status', async () => {
+			mockLoadAll.mockRejectedValueOnce(new NotFoundError('404 Project Not Found', 'https://gitlab.com/api/v4/projects/12345/issues', 404));
+
+			const report = await gitlabLoader.loadIssues();
+
+			expect(report.sources).toEqual([]);
+			expect(report.errors).toEqual([
+				{kind: 'http', source: 'Project 12345', status: 404, message: '404 Project Not Found'},
+			]);
+			expect(mockProcessIssues).not.toHaveBeenCalled();
+		});
+	});
+
+	it('should list the projects of custom sources', async () => {
+		mockSettings.gitlabIssuesLevel = 'custom';
+		mockSettings.sources = [createSource('project', '1'), createSource('group', 'my-group')];
+		const mockProject = {id: 1, name_with_namespace: 'Group / App'};
+		const mockGroupProject = {id: 2, name_with_namespace: 'My Group / Api'};
+		const mockLoad = jest.spyOn(GitlabApi, 'load').mockResolvedValue(mockProject);
+		mockLoadAll.mockResolvedValue({items: [mockGroupProject], complete: true});
+
+		const projects = await gitlabLoader.loadProjects();
+
+		expect(mockLoad).toHaveBeenCalledWith(`${mockSettings.gitlabApiUrl()}/projects/1`, mockSettings.gitlabToken);
+		expect(mockLoadAll).toHaveBeenCalledWith(
+			`${mockSettings.gitlabApiUrl()}/groups/my-group/projects?include_subgroups=true&archived=false`,
+			mockSettings.gitlabToken,
+			mockSettings.maxPages
+		);
+		expect(projects).toEqual([{...mockProject, connection: 'Default'}, {...mockGroupProject, connection: 'Default'}]);
+
+		mockSettings.gitlabIssuesLevel = 'project';
+		mockSettings.sources = [];
+	});
+
+	it('should load custom sources through their connection', async () => {
+		mockSettings.gitlabIssuesLevel = 'custom';
+		mockSettings.sources = [createSource('project', '1'), {...createSource('project', '2'), connection: 'Work'}];
+		mockSettings.connections = [{name: 'Work', url: 'https://gitlab.example.com', token: 'work-token', note: ''}];
+		mockLoadAll.mockResolvedValue({items: [], complete: true});
+
+		await gitlabLoader.loadIssues();
+
+		expect(mockLoadAll).toHaveBeenCalledWith(
+			encodeURI(`${mockSettings.gitlabApiUrl()}/projects/1/issues?${mockSettings.filter}`),
+			mockSettings.gitlabToken,
+			mockSettings.maxPages
+		);
+		expect(mockLoadAll).toHaveBeenCalledWith(
+			encodeURI(`https://gitlab.example.com/api/v4/projects/2/issues?${mockSettings.filter}`),
+			'work-token',
+			mockSettings.maxPages
+		);
+
+		mockSettings.gitlabIssuesLevel = 'project';
+		mockSettings.sources = [];
+		mockSettings.connections = [];
+		mockSettings.syncState = {};
+	});
+
+	it('should tell accounts on the same instance apart', async () => {
+		mockSettings.gitlabIssuesLevel = 'custom';
+		mockSettings.sources = [{...createSource('project', '1'), connection: 'Bot'}];
+		mockSettings.connections = [{name: 'Bot', url: 'https://gitlab.com', token: 'bot-token', note: ''}];
+		mockLoadAll.mockResolvedValue({items: [{id: 1, title: 'Issue 1'} as Issue], complete: true});
+
+		await gitlabLoader.loadIssues();
+
+		expect(mockLoadAll).toHaveBeenCalledWith(expect.any(String), 'bot-token', mockSettings.maxPages);
+		expect(mockProcessIssues).toHaveBeenCalledWith([expect.objectContaining({id: 1, connection: 'Bot'})], true);
+
+		mockSettings.gitlabIssuesLevel = 'project';
+		mockSettings.sources = [];
+		mockSettings.connections = [];
+		mockSettings.syncState = {};
+	});
+
+	it('should encode project paths once and the filter separately', async () => {
+		mockSettings.gitlabIssuesLevel = 'custom';
+		mockSettings.sources = [{...createSource('project', 'group/app'), filter: 'labels=to do'}];
+		mockLoadAll.mockResolvedValue({items: [], complete: true});
+
+		await gitlabLoader.loadIssues();
+
+		expect(mockLoadAll).toHaveBeenCalledWith(
+			`${mockSettings.gitlabApiUrl()}/projects/group%2Fapp/issues?labels=to%20do`,
+			mockSettings.gitlabToken,
+			mockSettings.maxPages
+		);
+
+		mockSettings.gitlabIssuesLevel = 'project';
+		mockSettings.sources = [];
+		mockSettings.syncState = {};
+	});
+
+	it('should apply the filter and output overrides of custom sources', async () => {
+		mockSettings.gitlabIssuesLevel = 'custom';
+		mockSettings.sources = [
+			createSource('project', '1'),
+			{...createSource('project', '2'), filter: 'state=opened', outputDir: '/Work/'},
+		];
+		mockLoadAll.mockResolvedValue({items: [], complete: true});
+
+		await gitlabLoader.loadIssues();
+
+		expect(mockLoadAll).toHaveBeenCalledWith(
+			encodeURI(`${mockSettings.gitlabApiUrl()}/projects/2/issues?state=opened`),
+			mockSettings.gitlabToken,
+			mockSettings.maxPages
+		);
+		expect(mockFileSystem).toHaveBeenCalledWith(mockApp, mockSettings, expect.objectContaining({outputDir: '/Gitlab Issues/'}));
+		expect(mockFileSystem).toHaveBeenCalledWith(mockApp, mockSettings, expect.objectContaining({outputDir: '/Work/'}));
+		expect(mockProcessIssues).toHaveBeenCalledTimes(2);
+
+		mockSettings.gitlabIssuesLevel = 'project';
+		mockSettings.sources = [];
+		mockSettings.syncState = {};
+	});
+
+	it('should only let each target purge the notes of its own sources', async () => {
+		mockSettings.gitlabIssuesLevel = 'custom';
+		mockSettings.sources = [
+			createSource('project', '1'),
+			{...createSource('project', '2'), templateFile: 'other.md'},
+			{...createSource('project', '3'), outputDir: '/Gitlab Issues/app/'},
+		];
+		mockSettings.mergeRequestOutputDir = '/Gitlab Issues/Merge Requests/';
+		mockLoadAll.mockResolvedValue({items: [], complete: true});
+
+		await gitlabLoader.loadIssues();
+
+		const targets = mockFileSystem.mock.calls.map((call) => call[2]);
+		const knownSources = ['project:1', 'project:2', 'project:3', 'merge_requests'];
+		// Shares the folder with project 2, which has another template, and contains the folders of project 3 and merge requests
+		expect(targets[targets.length - 3]).toEqual(expect.objectContaining({
+			syncSources: ['project:1'],
+			knownSources,
+			otherDirs: ['/Gitlab Issues/', '/Gitlab Issues/app/', '/Gitlab Issues/Merge Requests/'],
+		}));
+		expect(targets[targets.length - 1]).toEqual(expect.objectContaining({
+			syncSources: ['project:3'],
+			otherDirs: [],
+		}));
+
+		mockSettings.gitlabIssuesLevel = 'project';
+		mockSettings.sources = [];
+		mockSettings.mergeRequestOutputDir = '/Gitlab Merge Requests/';
+		mockSettings.syncState = {};
+	});
+
+	describe('failing custom sources', () => {
+		const mockIssues = [{id: 1, title: 'Issue 1', updated_at: '2024-05-02T10:00:00.000Z'}] as Issue[];
+
+		beforeEach(() => {
+			mockSettings.gitlabIssuesLevel = 'custom';
+			mockSettings.sources = [
+				createSource('project', '1'),
+				createSource('project', '2'),
+				{...createSource('group', 'team'), outputDir: '/Team/'},
+			];
+			mockLoadAll.mockImplementation(async (url) => {
+				if (url.includes('/projects/2/')) {
+					throw new NotFoundError('404 Project Not Found', url, 404);
+				}
+				return {items: mockIssues, complete: true};
+			});
+		});
+
+		afterEach(() => {
+			mockLoadAll.mockReset();
+			mockSettings.gitlabIssuesLevel = 'project';
+			mockSettings.sources = [];
+			mockSettings.syncState = {};
+		});
+
+		it('should still write the sources that loaded and report the failed one', async () => {
+			const report = await gitlabLoader.loadIssues();
+
+			expect(mockProcessIssues).toHaveBeenCalledTimes(2);
+			expect(report.sources.map((source) => source.source)).toEqual(['Project 1', 'Group team']);
+			expect(report.errors).toEqual([
+				{kind: 'http', source: 'Project 2', status: 404, message: '404 Project Not Found'},
+			]);
+		});
+
+		it('should not purge the output folder of the failed source', async () => {
+			await gitlabLoader.loadIssues();
+
+			// Project 1 shares the default folder with the failed project, the group writes to its own
+			expect(mockProcessIssues.mock.calls.map((call) => call[1])).toEqual([false, true]);
+		});
+
+		it('should only record sync state for the sources that loaded', async () => {
+			await gitlabLoader.loadIssues();
+
+			expect(Object.keys(mockSettings.syncState)).toEqual(['project:1', 'group:team']);
+		});
+
+		it('should only fail the source whose connection does not exist', async () => {
+			mockSettings.sources = [...mockSettings.sources, {...createSource('project', '4'), connection: 'Removed'}];
+
+			const report = await gitlabLoader.loadIssues();
+
+			expect(report.sources.map((source) => source.source)).toEqual(['Project 1', 'Group team']);
+			expect(report.errors).toContainEqual(
+				{kind: 'http', source: 'Project 4 (Removed)', status: null, message: 'Unknown GitLab connection: Removed'}
+			);
+			expect(Object.keys(mockSettings.syncState)).toEqual(['project:1', 'group:team']);
+		});
+
+		it('should still write the other folders when one of them cannot be written', async () => {
+			mockProcessIssues.mockRejectedValueOnce(new Error('Folder is read-only'));
+
+			const report = await gitlabLoader.loadIssues();
+
+			expect(mockProcessIssues).toHaveBeenCalledTimes(2);
+			expect(report.sources.map((source) => source.source)).toEqual(['Group team']);
+			expect(report.errors).toContainEqual({kind: 'http', source: 'Project 1', status: null, message: 'Folder is read-only'});
+			expect(Object.keys(mockSettings.syncState)).toEqual(['group:team']);
+		});
+	});
+
+	describe('incremental sync', () => {
+		const mockIssues = [
+			{id: 1, title: 'Issue 1', updated_at: '2024-05-02T10:00:00.000Z'},
+			{id: 2, title: 'Issue 2', updated_at: '2024-05-03T10:00:00.000Z'},
+		] as Issue[];
+
+		beforeEach(() => {
+			mockSettings.gitlabIssuesLevel = 'project';
+			mockSettings.incrementalSync = true;
+			mockLoadAll.mockResolvedValue({items: mockIssues, complete: true});
+			mockProcessIssues.mockImplementation(async (issues: Issue[]) => ({
+				...writeSummary,
+				outcomes: new Map(issues.map((issue) => [`default:${issue.id}`, 'created'])),
+			}));
+		});
+
+		afterEach(() => {
+			mockSettings.incrementalSync = false;
+			mockSettings.syncState = {};
+			mockProcessIssues.mockResolvedValue(writeSummary);
+		});
+
+		it('should not move the cursor past an issue whose note could not be written', async () => {
+			mockProcessIssues.mockResolvedValueOnce({...writeSummary, outcomes: new Map([['default:2', 'created']])});
+
+			await gitlabLoader.loadIssues();
+
+			expect(mockSettings.syncState['project:12345'].updatedAfter).toBe('2024-05-02T10:00:00.000Z');
+		});
+
+		it('should do a full sync and record a cursor when none exists', async () => {
+			await gitlabLoader.loadIssues();
+
+			expect(mockLoadAll).toHaveBeenCalledWith(
+				encodeURI(gitlabLoader.getUrl()),
+				mockSettings.gitlabToken,
+				mockSettings.maxPages
+			);
+			expect(mockProcessIssues).toHaveBeenCalledWith(expect.anything(), true);
+			expect(mockSettings.syncState['project:12345']).toEqual({
+				updatedAfter: '2024-05-03T10:00:00.000Z',
+				lastFullSync: expect.any(String),
+				url: gitlabLoader.getUrl(),
+			});
+		});
+
+		it('should only load issues updated after the cursor and skip purging', async () => {
+			const lastFullSync = new Date().toISOString();
+			mockSettings.syncState = {
+				'project:12345': {updatedAfter: '2024-05-01T10:00:00.000Z', lastFullSync, url: gitlabLoader.getUrl()},
+			};
+
+			await gitlabLoader.loadIssues();
+
+			expect(mockLoadAll).toHaveBeenCalledWith(
+				`${gitlabLoader.getUrl()}&updated_after=${encodeURIComponent('2024-05-01T10:00:00.000Z')}`,
+				mockSettings.gitlabToken,
+				mockSettings.maxPages
+			);
+			expect(mockProcessIssues).toHaveBeenCalledWith(expect.anything(), false);
+			expect(mockSettings.syncState['project:12345']).toEqual({
+				updatedAfter: '2024-05-03T10:00:00.000Z',
+				lastFullSync,
+				url: gitlabLoader.getUrl(),
+			});
+		});
+
+		it('should fall back to a full sync once the full sync interval has passed', async () => {
+			mockSettings.syncState = {
+				'project:12345': {
+					updatedAfter: '2024-05-01T10:00:00.000Z',
+					lastFullSync: '2024-05-01T10:00:00.000Z',
+					url: gitlabLoader.getUrl(),
+				},
+			};
+
+			await gitlabLoader.loadIssues();
+
+			expect(mockLoadAll).toHaveBeenCalledWith(
+				encodeURI(gitlabLoader.getUrl()),
+				mockSettings.gitlabToken,
+				mockSettings.maxPages
+			);
+			expect(mockProcessIssues).toHaveBeenCalledWith(expect.anything(), true);
+		});
+
+		it('should encode a cursor with a time zone offset', async () => {
+			mockSettings.syncState = {
+				'project:12345': {updatedAfter: '2024-05-01T12:00:00.000+02:00', lastFullSync: new Date().toISOString(), url: gitlabLoader.getUrl()},
+			};
+
+			await gitlabLoader.loadIssues();
+
+			expect(mockLoadAll).toHaveBeenCalledWith(
+				`${gitlabLoader.getUrl()}&updated_after=2024-05-01T12%3A00%3A00.000%2B02%3A00`,
+				mockSettings.gitlabToken,
+				mockSettings.maxPages
+			);
+		});
+
+		it('should start over with a full sync when the filter changed', async () => {
+			mockSettings.syncState = {
+				'project:12345': {updatedAfter: '2024-05-01T10:00:00.000Z', lastFullSync: new Date().toISOString(), url: gitlabLoader.getUrl()},
+			};
+			mockSettings.filter = 'state=all';
+
+			await gitlabLoader.loadIssues();
+
+			expect(mockLoadAll).toHaveBeenCalledWith(gitlabLoader.getUrl(), mockSettings.gitlabToken, mockSettings.maxPages);
+			expect(mockProcessIssues).toHaveBeenCalledWith(expect.anything(), true);
+			mockSettings.filter = 'due_date=month';
+		});
+	});
+
+	describe('saveIssueNote', () => {
+		const issue = {
+			id: 5, iid: 3, project_id: 7, title: 'Issue 5', description: '', due_date: '', references: '',
+			web_url: 'https://gitlab.com/group/app/-/issues/3',
+		} as Issue;
+
+		it('should only update notes that were synced before', async () => {
+			mockFindNote.mockReturnValue(null);
+
+			expect(await gitlabLoader.saveIssueNote(issue, false)).toBeNull();
+			expect(mockSaveOrUpdateNote).not.toHaveBeenCalled();
+		});
+
+		it('should create a missing note in the output folder of the source of the issue', async () => {
+			mockSettings.gitlabIssuesLevel = 'custom';
+			mockSettings.sources = [createSource('project', '1'), {...createSource('project', 'group/app'), outputDir: '/App/'}];
+			mockFindNote.mockReturnValue(null);
+
+			await gitlabLoader.saveIssueNote(issue, true);
+
+			expect(mockFileSystem).toHaveBeenLastCalledWith(mockApp, mockSettings, expect.objectContaining({outputDir: '/App/'}));
+			expect(mockSaveOrUpdateNote).toHaveBeenCalledWith(expect.objectContaining({id: 5, title: 'Issue 5'}));
+
+			mockSettings.gitlabIssuesLevel = 'project';
+			mockSettings.sources = [];
+		});
+
+		it('should keep the connection the note was synced through', async () => {
+			mockFindNote.mockReturnValue({path: 'Gitlab Issues/Issue 5.md'});
+			mockGetFileCache.mockReturnValue({frontmatter: {id: 5, connection: 'Bot'}});
+
+			await gitlabLoader.saveIssueNote(issue, false);
+
+			expect(mockSaveOrUpdateNote).toHaveBeenCalledWith(expect.objectContaining({id: 5, connection: 'Bot'}));
+		});
+	});
+
+	describe('searchIssues', () => {
+		const mockLoad = jest.spyOn(GitlabApi, 'load');
+
+		it('should search every source without its filter and drop duplicates', async () => {
+			mockSettings.gitlabIssuesLevel = 'custom';
+			mockSettings.sources = [
+				createSource('group', 'group'),
+				createSource('project', 'group/app'),
+				{...createSource('personal', ''), filter: 'scope=assigned_to_me&state=opened'},
+			];
+			const issue = {id: 1, iid: 3, title: 'Login', web_url: 'https://gitlab.com/group/app/-/issues/3'} as Issue;
+			mockLoad.mockResolvedValueOnce([issue]).mockResolvedValueOnce([issue]).mockRejectedValueOnce(new Error('Forbidden'));
+
+			expect(await gitlabLoader.searchIssues('log in', 10)).toEqual([issue]);
+			const query = 'search=log%20in&order_by=updated_at&per_page=10';
+			expect(mockLoad.mock.calls.map(([url]) => url)).toEqual([
+				`${mockSettings.gitlabApiUrl()}/groups/group/issues?${query}`,
+				`${mockSettings.gitlabApiUrl()}/projects/group%2Fapp/issues?${query}`,
+				`${mockSettings.gitlabApiUrl()}/issues?scope=assigned_to_me&${query}`,
+			]);
+
+			mockSettings.gitlabIssuesLevel = 'project';
+			mockSettings.sources = [];
+		});
+
+		it('should search the issues created by the user without a scope in the filter', async () => {
+			mockSettings.gitlabIssuesLevel = 'personal';
+			mockLoad.mockResolvedValueOnce([]);
+
+			await gitlabLoader.searchIssues('login', 10);
+
+			expect(mockLoad).toHaveBeenLastCalledWith(
+				`${mockSettings.gitlabApiUrl()}/issues?scope=created_by_me&search=login&order_by=updated_at&per_page=10`,
+				mockSettings.gitlabToken
+			);
+			mockSettings.gitlabIssuesLevel = 'project';
+		});
+	});
 });
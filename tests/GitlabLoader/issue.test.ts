@@ -1,5 +1,3 @@
-
-import * as Utils from '../../src/utils/utils';
 import { Issue } from '../../src/GitlabLoader/issue-types';
 import {GitlabIssue} from "../../src/GitlabLoader/issue";
 
@@ -86,9 +84,15 @@ describe('GitlabIssue', () => {
 	});
 
 	it('should correctly sanitize the filename using the title', () => {
-		const mockSanitizeFileName = jest.spyOn(Utils, "sanitizeFileName").mockReturnValue('sanitized-Test');
-		const gitlabIssue = new GitlabIssue(mockIssue);
-		expect(gitlabIssue.filename).toEqual(`sanitized-Test`);
-		expect(mockSanitizeFileName).toHaveBeenCalledWith(mockIssue.title);
+		const gitlabIssue = new GitlabIssue({...mockIssue, title: 'Fix: "quoted" / slashed'});
+		expect(gitlabIssue.filename).toEqual('Fix -quoted- - slashed');
+	});
+
+	it('should render the filename from the filename template', () => {
+		const gitlabIssue = new GitlabIssue(
+			{...mockIssue, references: {short: '#1', relative: '#1', full: 'group/app#1'}},
+			'{{project}}/{{iid}} - {{title}}'
+		);
+		expect(gitlabIssue.filename).toEqual('group-app/1 - Test Issue');
 	});
 });
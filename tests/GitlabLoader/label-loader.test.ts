@@ -0,0 +1,84 @@
+import GitlabApi from "../../src/GitlabLoader/gitlab-api";
+import LabelLoader, {CachedLabels, getLabelDetails} from "../../src/GitlabLoader/label-loader";
+import {ObsidianIssue} from "../../src/GitlabLoader/issue-types";
+import {GitlabConnection, GitlabIssuesSettings} from "../../src/SettingsTab/settings-types";
+import PersistentCache from "../../src/utils/persistent-cache";
+
+const mockLoadAll = jest.spyOn(GitlabApi, 'loadAll');
+
+const mockSettings = {
+	gitlabUrl: 'https://gitlab.com',
+	gitlabToken: 'test-token',
+	connections: [] as GitlabConnection[],
+	maxPages: 20,
+	gitlabApiUrl: () => 'https://gitlab.com/api/v4',
+} as GitlabIssuesSettings;
+
+const bug = {id: 1, name: 'bug', color: '#dc143c', text_color: '#FFFFFF', description: 'Something is broken'};
+const webUrl = 'https://gitlab.com/group/app/-/issues/3';
+
+describe('LabelLoader', () => {
+	let cache: PersistentCache<CachedLabels>;
+	let adapter: { read: jest.Mock, write: jest.Mock };
+
+	beforeEach(() => {
+		adapter = {
+			read: jest.fn().mockRejectedValue(new Error('missing')),
+			write: jest.fn().mockResolvedValue(undefined),
+		};
+		cache = new PersistentCache<CachedLabels>(adapter as any, 'labels-cache.json');
+	});
+
+	afterEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('should load the labels of a project once for concurrent requests', async () => {
+		mockLoadAll.mockResolvedValue({items: [bug], complete: true});
+		const loader = new LabelLoader(mockSettings, cache);
+
+		const [labels] = await Promise.all([loader.loadLabels(7, webUrl), loader.loadLabels(7, webUrl)]);
+
+		expect(mockLoadAll).toHaveBeenCalledTimes(1);
+		expect(mockLoadAll).toHaveBeenCalledWith(
+			'https://gitlab.com/api/v4/projects/7/labels?include_ancestor_groups=true',
+			mockSettings.gitlabToken,
+			mockSettings.maxPages
+		);
+		expect(labels).toEqual([{name: 'bug', color: '#dc143c', text_color: '#FFFFFF', description: 'Something is broken'}]);
+		expect(adapter.write).toHaveBeenCalled();
+	});
+
+	it('should reuse cached labels until they expire', async () => {
+		adapter.read.mockResolvedValue(JSON.stringify({
+			'https://gitlab.com/api/v4/projects/7': {fetched_at: new Date().toISOString(), labels: [bug]},
+			'https://gitlab.com/api/v4/projects/8': {fetched_at: '2024-01-01T00:00:00.000Z', labels: []},
+		}));
+		mockLoadAll.mockResolvedValue({items: [], complete: true});
+		const loader = new LabelLoader(mockSettings, cache);
+
+		expect(await loader.loadLabels(7, webUrl)).toEqual([bug]);
+		expect(mockLoadAll).not.toHaveBeenCalled();
+
+		await loader.loadLabels(8, webUrl);
+		expect(mockLoadAll).toHaveBeenCalledTimes(1);
+	});
+
+	it('should attach label details to issues', async () => {
+		mockLoadAll.mockResolvedValue({items: [bug], complete: true});
+		const issue = {project_id: 7, web_url: webUrl, labels: ['bug', 'ui']} as ObsidianIssue;
+
+		await new LabelLoader(mockSettings, cache).attachLabelDetails([issue]);
+
+		expect(issue.labelDetails).toEqual([
+			{name: 'bug', color: '#dc143c', text_color: '#FFFFFF', description: 'Something is broken'},
+			{name: 'ui', color: '#6699cc', text_color: '#FFFFFF', description: null},
+		]);
+	});
+
+	it('should fall back to a neutral color for unknown labels', () => {
+		expect(getLabelDetails(['priority::high'], [])).toEqual([
+			{name: 'priority::high', color: '#6699cc', text_color: '#FFFFFF', description: null},
+		]);
+	});
+});
@@ -0,0 +1,134 @@
+import {App} from 'obsidian';
+import * as Filesystem from '../../src/filesystem';
+import GitlabApi from "../../src/GitlabLoader/gitlab-api";
+import MergeRequestLoader from "../../src/GitlabLoader/merge-request-loader";
+import {GitlabMergeRequest} from "../../src/GitlabLoader/merge-request";
+import {GitlabConnection, GitlabIssuesSettings, GitlabSource} from "../../src/SettingsTab/settings-types";
+
+const mockProcessIssues = jest.fn();
+jest.spyOn(Filesystem, 'default').mockReturnValue({
+	processIssues: mockProcessIssues
+} as any);
+
+const mockLoad = jest.spyOn(GitlabApi, 'load');
+const mockLoadAll = jest.spyOn(GitlabApi, 'loadAll');
+
+const mockSettings = {
+	gitlabUrl: 'https://gitlab.com',
+	gitlabToken: 'test-token',
+	connections: [] as GitlabConnection[],
+	maxPages: 20,
+	purgeIssues: true,
+	outputDir: '/Gitlab Issues/',
+	sources: [] as GitlabSource[],
+	mergeRequestOutputDir: '/Gitlab Merge Requests/',
+	mergeRequestTemplateFile: '',
+	mergeRequestFilter: 'state=opened',
+	gitlabApiUrl: () => 'https://gitlab.com/api/v4',
+} as GitlabIssuesSettings;
+
+const apiUrl = 'https://gitlab.com/api/v4';
+const jane = {id: 1, username: 'jane'};
+
+describe('MergeRequestLoader', () => {
+	afterEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('should load assigned and review requested merge requests with their details', async () => {
+		const mergeRequest = {id: 5, iid: 2, project_id: 7, title: 'Add feature'};
+		mockLoadAll.mockResolvedValue({items: [mergeRequest], complete: true});
+		mockLoad.mockImplementation((url: string) => {
+			if (url.endsWith('/user')) {
+				return Promise.resolve(jane);
+			}
+			if (url.endsWith('/approvals')) {
+				return Promise.resolve({approved: true, approvals_required: 1, approvals_left: 0, approved_by: [{user: jane}]});
+			}
+			if (url.endsWith('/closes_issues')) {
+				return Promise.resolve([{id: 9, title: 'Bug'}]);
+			}
+			return Promise.resolve({...mergeRequest, head_pipeline: {id: 3, status: 'success'}});
+		});
+
+		await new MergeRequestLoader({} as App, mockSettings).loadMergeRequests([{name: 'Project 7 merge requests', path: '/projects/7/merge_requests', connection: 'Default'}]);
+
+		expect(mockLoadAll).toHaveBeenCalledWith(
+			encodeURI(`${apiUrl}/projects/7/merge_requests?scope=assigned_to_me&state=opened`),
+			mockSettings.gitlabToken,
+			mockSettings.maxPages
+		);
+		expect(mockLoadAll).toHaveBeenCalledWith(
+			encodeURI(`${apiUrl}/projects/7/merge_requests?scope=all&reviewer_username=jane&state=opened`),
+			mockSettings.gitlabToken,
+			mockSettings.maxPages
+		);
+		expect(mockProcessIssues).toHaveBeenCalledWith(expect.anything(), true);
+
+		const processed: GitlabMergeRequest[] = mockProcessIssues.mock.calls[0][0];
+		expect(processed).toHaveLength(1);
+		expect(processed[0]).toBeInstanceOf(GitlabMergeRequest);
+		expect(processed[0].head_pipeline).toEqual({id: 3, status: 'success'});
+		expect(processed[0].approvals).toEqual({approved: true, approvals_required: 1, approvals_left: 0, approved_by: [jane]});
+		expect(processed[0].linked_issues).toEqual([{id: 9, title: 'Bug'}]);
+	});
+
+	it('should not purge when a result was truncated', async () => {
+		mockLoad.mockResolvedValue(jane);
+		mockLoadAll.mockResolvedValue({items: [], complete: false});
+
+		await new MergeRequestLoader({} as App, mockSettings).loadMergeRequests([{name: 'Your issues merge requests', path: '/merge_requests', connection: 'Default'}]);
+
+		expect(mockProcessIssues).toHaveBeenCalledWith([], false);
+	});
+
+	it('should load through the connection of the source, even on the same instance', async () => {
+		const settings = {
+			...mockSettings,
+			connections: [{name: 'Bot', url: 'https://gitlab.com', token: 'bot-token', note: ''}],
+		} as GitlabIssuesSettings;
+		mockLoad.mockResolvedValue(jane);
+		mockLoadAll.mockResolvedValue({items: [], complete: true});
+
+		await new MergeRequestLoader({} as App, settings).loadMergeRequests([{name: 'Your issues (Bot) merge requests', path: '/merge_requests', connection: 'Bot'}]);
+
+		expect(mockLoad).toHaveBeenCalledWith(`${apiUrl}/user`, 'bot-token');
+		expect(mockLoadAll).toHaveBeenCalledWith(expect.any(String), 'bot-token', mockSettings.maxPages);
+	});
+
+	it('should still write the lists that loaded and not purge when one failed', async () => {
+		mockLoad.mockResolvedValue(jane);
+		mockLoadAll.mockResolvedValue({items: [{id: 5, iid: 2, project_id: 7, title: 'Add feature'}], complete: true});
+
+		const summary = await new MergeRequestLoader({} as App, mockSettings).loadMergeRequests([
+			{name: 'Project 7 merge requests', path: '/projects/7/merge_requests', connection: 'Default'},
+			{name: 'Project 8 (Removed) merge requests', path: '/projects/8/merge_requests', connection: 'Removed'},
+		]);
+
+		expect(mockProcessIssues).toHaveBeenCalledWith([expect.objectContaining({id: 5})], false);
+		expect(summary.failedLists).toEqual([
+			{name: 'Project 8 (Removed) merge requests', error: new Error('Unknown GitLab connection: Removed')},
+		]);
+	});
+
+	it('should keep merge requests of other instances with the same id apart', async () => {
+		const settings = {
+			...mockSettings,
+			connections: [{name: 'Work', url: 'https://gitlab.example.com', token: 'work-token', note: ''}],
+		} as GitlabIssuesSettings;
+		mockLoad.mockResolvedValue(jane);
+		mockLoadAll.mockImplementation(async (url: string) => ({
+			items: [{id: 5, iid: 2, project_id: 7, title: url.includes('example') ? 'Work' : 'Public', web_url: url}],
+			complete: true,
+		}));
+
+		await new MergeRequestLoader({} as App, settings).loadMergeRequests([
+			{name: 'Your issues merge requests', path: '/merge_requests', connection: 'Default'},
+			{name: 'Your issues (Work) merge requests', path: '/merge_requests', connection: 'Work'},
+		]);
+
+		const processed: GitlabMergeRequest[] = mockProcessIssues.mock.calls[0][0];
+		expect(processed.map((mergeRequest) => [mergeRequest.title, mergeRequest.connection]))
+			.toEqual([['Public', 'Default'], ['Work', 'Work']]);
+	});
+});
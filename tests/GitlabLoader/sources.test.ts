@@ -0,0 +1,50 @@
+import GitlabApi from "../../src/GitlabLoader/gitlab-api";
+import {createSource, migrateCustomSources, parseCustomSources, resolveSourceName} from "../../src/GitlabLoader/sources";
+import {DEFAULT_SETTINGS} from "../../src/SettingsTab/settings";
+import {GitlabIssuesSettings} from "../../src/SettingsTab/settings-types";
+
+const mockLoad = jest.spyOn(GitlabApi, 'load');
+
+describe('sources', () => {
+	afterEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('should parse a custom scope string into sources', () => {
+		expect(parseCustomSources('G:111, P:group/app@Work')).toEqual([
+			createSource('group', '111'),
+			{...createSource('project', 'group/app'), connection: 'Work'},
+		]);
+	});
+
+	it('should skip invalid entries instead of failing', () => {
+		expect(parseCustomSources('X:1, P:, 234, P:5')).toEqual([createSource('project', '5')]);
+	});
+
+	it('should migrate the custom scope string once', () => {
+		const settings: GitlabIssuesSettings = {...DEFAULT_SETTINGS, gitlabIssuesLevel: 'custom', gitlabAppId: 'P:1', sources: []};
+
+		migrateCustomSources(settings);
+		expect(settings.sources).toEqual([createSource('project', '1')]);
+
+		settings.gitlabAppId = 'P:2';
+		migrateCustomSources(settings);
+		expect(settings.sources).toEqual([createSource('project', '1')]);
+	});
+
+	it('should resolve the name of a project by its path', async () => {
+		mockLoad.mockResolvedValue({name_with_namespace: 'Group / App'});
+
+		const name = await resolveSourceName(DEFAULT_SETTINGS, createSource('project', 'group/app'));
+
+		expect(mockLoad).toHaveBeenCalledWith('https://gitlab.com/api/v4/projects/group%2Fapp', DEFAULT_SETTINGS.gitlabToken);
+		expect(name).toBe('Group / App');
+	});
+
+	it('should resolve the name of a group', async () => {
+		mockLoad.mockResolvedValue({full_name: 'Group / Sub'});
+
+		expect(await resolveSourceName(DEFAULT_SETTINGS, createSource('group', '12'))).toBe('Group / Sub');
+		expect(mockLoad).toHaveBeenCalledWith('https://gitlab.com/api/v4/groups/12', DEFAULT_SETTINGS.gitlabToken);
+	});
+});
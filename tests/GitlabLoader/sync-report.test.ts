@@ -0,0 +1,57 @@
+import {
+	addSourceReport,
+	createSyncReport,
+	describeSource,
+	formatSyncError,
+	getHttpStatus,
+	isNoteworthy,
+	summarizeReport,
+} from "../../src/GitlabLoader/sync-report";
+import {createSource} from "../../src/GitlabLoader/sources";
+import {WriteSummary} from "../../src/filesystem";
+import {AuthenticationError, NetworkError} from "../../src/GitlabLoader/gitlab-errors";
+
+function summary(overrides: Partial<WriteSummary> = {}): WriteSummary {
+	return {outcomes: new Map(), purged: 0, errors: [], templateFile: '', templateError: null, ...overrides};
+}
+
+describe('sync report', () => {
+	it('should name sources by their type, name and connection', () => {
+		expect(describeSource(createSource('personal', ''))).toBe('Your issues');
+		expect(describeSource({...createSource('project', '12'), name: 'Group / App'})).toBe('Project Group / App');
+		expect(describeSource({...createSource('group', 'team'), connection: 'Work'})).toBe('Group team (Work)');
+	});
+
+	it('should read the status of request errors', () => {
+		expect(getHttpStatus(new AuthenticationError('Unauthorized', 'https://gitlab.com/api/v4/user', 401))).toBe(401);
+		expect(getHttpStatus(new NetworkError('Could not reach GitLab', 'https://gitlab.com/api/v4/user'))).toBeNull();
+		expect(getHttpStatus(new Error('Template error'))).toBeNull();
+	});
+
+	it('should count only the items of the source', () => {
+		const report = createSyncReport();
+		const written = summary({outcomes: new Map([['default:1', 'created'], ['default:2', 'updated'], ['default:3', 'unchanged']])});
+
+		addSourceReport(report, 'Project app', ['default:1', 'default:2'], written, 4);
+		addSourceReport(report, 'Project api', ['default:3', 'default:5'], written, 0);
+
+		expect(report.sources).toEqual([
+			{source: 'Project app', fetched: 2, created: 1, updated: 1, unchanged: 0, purged: 4},
+			{source: 'Project api', fetched: 2, created: 0, updated: 0, unchanged: 1, purged: 0},
+		]);
+		expect(summarizeReport(report)).toBe('1 created, 1 updated, 1 unchanged, 4 purged');
+	});
+
+	it('should only find syncs that changed notes or failed noteworthy', () => {
+		const report = createSyncReport();
+		addSourceReport(report, 'Your issues', ['default:1'], summary({outcomes: new Map([['default:1', 'unchanged']])}), 0);
+
+		expect(isNoteworthy(report)).toBe(false);
+
+		report.errors.push({kind: 'http', source: 'Group team', status: 403, message: 'Forbidden'});
+
+		expect(isNoteworthy(report)).toBe(true);
+		expect(summarizeReport(report)).toBe('0 created, 0 updated, 1 unchanged, 1 error');
+		expect(formatSyncError(report.errors[0])).toBe('Group team: HTTP 403 Forbidden');
+	});
+});
@@ -0,0 +1,98 @@
+import GitlabApi from "../../src/GitlabLoader/gitlab-api";
+import {NotFoundError} from "../../src/GitlabLoader/gitlab-errors";
+import CardCache, {CachedResponse} from "../../src/GitlabPostProcessor/card-cache";
+import {GitlabIssuesSettings} from "../../src/SettingsTab/settings-types";
+import PersistentCache from "../../src/utils/persistent-cache";
+
+const mockLoad = jest.spyOn(GitlabApi, 'load');
+
+const mockSettings = {cardCacheMinutes: 5} as GitlabIssuesSettings;
+const issueUrl = 'https://gitlab.com/api/v4/projects/7/issues/3';
+
+describe('CardCache', () => {
+	let cache: PersistentCache<CachedResponse>;
+	let adapter: { read: jest.Mock, write: jest.Mock };
+
+	const cacheEntry = (fetchedAt: Date, value: unknown) => {
+		adapter.read.mockResolvedValue(JSON.stringify({[issueUrl]: {fetched_at: fetchedAt.toISOString(), value}}));
+	};
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+		adapter = {
+			read: jest.fn().mockRejectedValue(new Error('missing')),
+			write: jest.fn().mockResolvedValue(undefined),
+		};
+		cache = new PersistentCache<CachedResponse>(adapter as any, 'cards-cache.json');
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+		jest.clearAllMocks();
+	});
+
+	it('should fetch missing entries once for concurrent renders and save them', async () => {
+		mockLoad.mockResolvedValue({title: 'Fresh'});
+		const cardCache = new CardCache(mockSettings, cache);
+
+		const [first, second] = await Promise.all([
+			cardCache.load(issueUrl, 'token'),
+			cardCache.load(issueUrl, 'token'),
+		]);
+
+		expect(mockLoad).toHaveBeenCalledTimes(1);
+		expect(first.value).toEqual({title: 'Fresh'});
+		expect(second.stale).toBe(false);
+
+		jest.runAllTimers();
+		expect(adapter.write).toHaveBeenCalledTimes(1);
+	});
+
+	it('should serve fresh entries without a request', async () => {
+		cacheEntry(new Date(), {title: 'Cached'});
+
+		const data = await new CardCache(mockSettings, cache).load(issueUrl, 'token');
+
+		expect(data).toEqual({value: {title: 'Cached'}, fetchedAt: expect.any(String), stale: false});
+		expect(mockLoad).not.toHaveBeenCalled();
+	});
+
+	it('should serve stale entries at once and revalidate them', async () => {
+		cacheEntry(new Date(Date.now() - 60 * 60 * 1000), {title: 'Cached'});
+		mockLoad.mockResolvedValue({title: 'Fresh'});
+		const onRevalidate = jest.fn();
+
+		const data = await new CardCache(mockSettings, cache).load(issueUrl, 'token', onRevalidate);
+		expect(data.value).toEqual({title: 'Cached'});
+		expect(data.stale).toBe(true);
+
+		await Promise.resolve();
+		await Promise.resolve();
+		expect(onRevalidate).toHaveBeenCalledWith(expect.objectContaining({value: {title: 'Fresh'}, stale: false}));
+	});
+
+	it('should keep serving stale entries while offline', async () => {
+		cacheEntry(new Date(Date.now() - 60 * 60 * 1000), {title: 'Cached'});
+		mockLoad.mockRejectedValue(new Error('net::ERR_INTERNET_DISCONNECTED'));
+		const onRevalidate = jest.fn();
+
+		const data = await new CardCache(mockSettings, cache).load(issueUrl, 'token', onRevalidate);
+
+		expect(data.value).toEqual({title: 'Cached'});
+		expect(data.stale).toBe(true);
+		expect(onRevalidate).not.toHaveBeenCalled();
+	});
+
+	it('should forget entries GitLab no longer finds', async () => {
+		cacheEntry(new Date(Date.now() - 60 * 60 * 1000), {title: 'Cached'});
+		mockLoad.mockRejectedValue(new NotFoundError('404 Not found', issueUrl, 404));
+		const cardCache = new CardCache(mockSettings, cache);
+
+		const data = await cardCache.load(issueUrl, 'token');
+		await Promise.resolve();
+		await Promise.resolve();
+
+		expect(data.value).toEqual({title: 'Cached'});
+		expect(cache.get(issueUrl)).toBeUndefined();
+	});
+});
@@ -0,0 +1,40 @@
+import {parseGitlabUrl} from "../../src/GitlabPostProcessor/gitlab-url";
+
+describe('parseGitlabUrl', () => {
+	it('should parse issue and merge request URLs', () => {
+		expect(parseGitlabUrl('https://gitlab.com/group/sub/app/-/issues/12')).toEqual({
+			kind: 'issue', namespace: 'group/sub/app', group: false, iid: 12,
+		});
+		expect(parseGitlabUrl('https://gitlab.com/group/app/-/merge_requests/7/diffs')).toEqual({
+			kind: 'merge_request', namespace: 'group/app', group: false, iid: 7,
+		});
+	});
+
+	it('should parse project and group milestones', () => {
+		expect(parseGitlabUrl('https://gitlab.com/group/app/-/milestones/3')).toEqual({
+			kind: 'milestone', namespace: 'group/app', group: false, iid: 3,
+		});
+		expect(parseGitlabUrl('https://gitlab.com/groups/group/sub/-/milestones/4')).toEqual({
+			kind: 'milestone', namespace: 'group/sub', group: true, iid: 4,
+		});
+	});
+
+	it('should parse epics and treat group work items as epics', () => {
+		expect(parseGitlabUrl('https://gitlab.com/groups/group/-/epics/5')).toEqual({
+			kind: 'epic', namespace: 'group', group: true, iid: 5,
+		});
+		expect(parseGitlabUrl('https://gitlab.com/groups/group/-/work_items/5')).toEqual({
+			kind: 'epic', namespace: 'group', group: true, iid: 5,
+		});
+		expect(parseGitlabUrl('https://gitlab.com/group/app/-/work_items/8#note_1')).toEqual({
+			kind: 'work_item', namespace: 'group/app', group: false, iid: 8,
+		});
+	});
+
+	it('should ignore other URLs', () => {
+		expect(parseGitlabUrl('https://gitlab.com/group/app/-/issues')).toBeNull();
+		expect(parseGitlabUrl('https://gitlab.com/group/app/-/issues/12abc')).toBeNull();
+		expect(parseGitlabUrl('https://gitlab.com/group/app/-/pipelines/12')).toBeNull();
+		expect(parseGitlabUrl('not a url')).toBeNull();
+	});
+});
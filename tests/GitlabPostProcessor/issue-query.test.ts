@@ -0,0 +1,72 @@
+import {getQueryUrl, parseIssueQuery} from "../../src/GitlabPostProcessor/issue-query";
+import {DEFAULT_SETTINGS} from "../../src/SettingsTab/settings";
+import {GitlabIssuesSettings} from "../../src/SettingsTab/settings-types";
+
+const mockSettings: GitlabIssuesSettings = {
+	...DEFAULT_SETTINGS,
+	connections: [{name: 'Work', url: 'https://gitlab.example.com', token: 'work-token', note: ''}],
+};
+
+describe('parseIssueQuery', () => {
+	it('should parse the source, filter and display options', () => {
+		const query = parseIssueQuery(`
+			project: group/app
+			labels: bug, ui
+			state: opened
+			assignee: jane
+			display: list
+			limit: 5
+			sort: due_date asc
+		`);
+
+		expect(query.source).toEqual({type: 'project', id: 'group/app'});
+		expect(query.filter.labels).toEqual(['bug', 'ui']);
+		expect(query.filter.state).toBe('opened');
+		expect(query.filter.assigneeUsername).toBe('jane');
+		expect(query.filter.orderBy).toBe('due_date');
+		expect(query.filter.sort).toBe('asc');
+		expect(query.display).toBe('list');
+		expect(query.limit).toBe(5);
+		expect(query.errors).toEqual([]);
+	});
+
+	it('should let dedicated keys override a raw filter', () => {
+		const query = parseIssueQuery('state: closed\nfilter: state=opened&weight=3');
+
+		expect(query.filter.state).toBe('closed');
+		expect(query.filter.other).toEqual(['weight=3']);
+	});
+
+	it('should report what it cannot understand', () => {
+		const query = parseIssueQuery('display: board\ncolumns: title, votes\nlimit: none\ncolour: red\nbroken line');
+
+		expect(query.display).toBe('table');
+		expect(query.columns).toEqual(['title']);
+		expect(query.errors).toEqual([
+			'Expected "key: value" but found "broken line"',
+			'Unknown display "board", use table, list or cards',
+			'Unknown columns: votes',
+			'Invalid limit "none"',
+			'Unknown key "colour"',
+		]);
+	});
+});
+
+describe('getQueryUrl', () => {
+	it('should build the issue list URL of a project on its connection', () => {
+		const query = parseIssueQuery('project: group/app\nconnection: Work\nlabels: to do\nlimit: 500');
+
+		expect(getQueryUrl(mockSettings, query))
+			.toBe('https://gitlab.example.com/api/v4/projects/group%2Fapp/issues?labels=to%20do&per_page=100');
+	});
+
+	it('should escape query separators inside values', () => {
+		expect(getQueryUrl(mockSettings, parseIssueQuery('search: a&b\nmilestone: v1#2\nlabels: C++')))
+			.toBe('https://gitlab.com/api/v4/issues?labels=C%2B%2B&milestone=v1%232&search=a%26b&per_page=20');
+	});
+
+	it('should query the issues of the user without a project or group', () => {
+		expect(getQueryUrl(mockSettings, parseIssueQuery('scope: assigned_to_me')))
+			.toBe('https://gitlab.com/api/v4/issues?scope=assigned_to_me&per_page=20');
+	});
+});
@@ -0,0 +1,33 @@
+import {findShortReferences, resolveProjectPath} from "../../src/GitlabPostProcessor/short-references";
+
+describe('resolveProjectPath', () => {
+	it('should resolve references like GitLab does', () => {
+		expect(resolveProjectPath('', 'group/app')).toBe('group/app');
+		expect(resolveProjectPath('other', 'group/app')).toBe('group/other');
+		expect(resolveProjectPath('team/other', 'group/app')).toBe('team/other');
+	});
+
+	it('should not resolve references without a default project to resolve them against', () => {
+		expect(resolveProjectPath('', '')).toBeNull();
+		expect(resolveProjectPath('other', '')).toBeNull();
+		expect(resolveProjectPath('other', 'app')).toBeNull();
+	});
+});
+
+describe('findShortReferences', () => {
+	it('should find references with their offsets', () => {
+		expect(findShortReferences('See #42 and group/sub/app#7.', 'group/app')).toEqual([
+			{from: 4, to: 7, text: '#42', projectPath: 'group/app', iid: 42},
+			{from: 12, to: 27, text: 'group/sub/app#7', projectPath: 'group/sub/app', iid: 7},
+		]);
+	});
+
+	it('should skip references it cannot resolve', () => {
+		expect(findShortReferences('#42 and app#3', '')).toEqual([]);
+	});
+
+	it('should ignore anchors, tags, e-mail addresses and inline code', () => {
+		const text = 'https://example.com/page#12 #tag #12abc me@host#3 `app#4` C#5x';
+		expect(findShortReferences(text, 'group/app')).toEqual([]);
+	});
+});
@@ -0,0 +1,83 @@
+import {diffFrontmatter, isUserEdit} from "../../src/GitlabSync/frontmatter-sync";
+import {Issue} from "../../src/GitlabLoader/issue-types";
+
+const mockIssue = {
+	id: 1,
+	iid: 7,
+	project_id: 3,
+	title: 'Test Issue',
+	state: 'opened',
+	labels: ['bug', 'ui'],
+	due_date: '2024-12-31',
+	assignees: [{username: 'jane'}],
+	milestone: {title: 'v1.0'},
+	updated_at: '2024-05-01T10:00:00.000Z',
+} as unknown as Issue;
+
+describe('diffFrontmatter', () => {
+	it('should report no changes when the frontmatter matches the issue', () => {
+		const frontmatter = {
+			state: 'opened',
+			labels: ['ui', 'bug'],
+			dueDate: '2024-12-31',
+			assignees: ['jane'],
+			milestone: 'v1.0',
+		};
+
+		expect(diffFrontmatter(frontmatter, mockIssue)).toEqual({});
+	});
+
+	it('should ignore fields the template does not include', () => {
+		expect(diffFrontmatter({title: 'Renamed'}, mockIssue)).toEqual({});
+	});
+
+	it('should report every edited field', () => {
+		const frontmatter = {
+			state: 'closed',
+			labels: 'bug, backend',
+			dueDate: null,
+			assignees: ['jane', 'joe'],
+			milestone: 'v2.0',
+		};
+
+		expect(diffFrontmatter(frontmatter, mockIssue)).toEqual({
+			state_event: 'close',
+			labels: ['bug', 'backend'],
+			due_date: null,
+			assignees: ['jane', 'joe'],
+			milestone: 'v2.0',
+		});
+	});
+
+	it('should reopen a closed issue and clear its milestone', () => {
+		const closedIssue = {...mockIssue, state: 'closed'} as Issue;
+
+		expect(diffFrontmatter({state: 'opened', milestone: null}, closedIssue)).toEqual({
+			state_event: 'reopen',
+			milestone: null,
+		});
+	});
+
+	it('should ignore unknown states', () => {
+		expect(diffFrontmatter({state: 'done'}, mockIssue)).toEqual({});
+	});
+});
+
+describe('isUserEdit', () => {
+	const snapshot = {fields: '["opened",["bug"]]', updatedAt: '2024-05-01T10:00:00.000Z'};
+
+	it('should take a changed field for an edit', () => {
+		expect(isUserEdit(snapshot, {...snapshot, fields: '["closed",["bug"]]'})).toBe(true);
+	});
+
+	it('should ignore notes written by the plugin', () => {
+		// Created by a sync
+		expect(isUserEdit(undefined, snapshot)).toBe(false);
+		// Updated by a sync, or after pushing an edit
+		expect(isUserEdit(snapshot, {fields: '["closed",["bug"]]', updatedAt: '2024-05-02T10:00:00.000Z'})).toBe(false);
+	});
+
+	it('should ignore changes outside the editable fields', () => {
+		expect(isUserEdit(snapshot, {...snapshot})).toBe(false);
+	});
+});
@@ -0,0 +1,31 @@
+import {TFile} from "obsidian";
+import {isIssueNote} from "../../src/GitlabSync/issue-notes";
+import {GitlabIssuesSettings} from "../../src/SettingsTab/settings-types";
+
+const mockSettings = {
+	outputDir: '/Gitlab Issues/',
+	mergeRequestOutputDir: '/Gitlab Issues/Merge Requests/',
+	sources: [],
+} as unknown as GitlabIssuesSettings;
+
+const frontmatter = {projectId: 3, iid: 7, updatedAt: '2024-05-01T10:00:00.000Z'};
+
+function note(path: string): TFile {
+	return {path} as TFile;
+}
+
+describe('isIssueNote', () => {
+	it('should accept synced notes in an issue folder', () => {
+		expect(isIssueNote(mockSettings, note('Gitlab Issues/Issue 7.md'), {...frontmatter, kind: 'issue'})).toBe(true);
+		expect(isIssueNote(mockSettings, note('Gitlab Issues/Issue 7.md'), frontmatter)).toBe(true);
+		expect(isIssueNote(mockSettings, note('Notes/Issue 7.md'), {...frontmatter, kind: 'issue'})).toBe(false);
+	});
+
+	it('should leave out merge request notes in an issue folder', () => {
+		expect(isIssueNote(mockSettings, note('Gitlab Issues/Merge request 7.md'), {...frontmatter, kind: 'merge_request'}))
+			.toBe(false);
+		expect(isIssueNote(mockSettings, note('Gitlab Issues/Merge Requests/Merge request 7.md'), frontmatter)).toBe(false);
+		expect(isIssueNote(mockSettings, note('Gitlab Issues/Merge Requests/Issue 7.md'), {...frontmatter, kind: 'issue'}))
+			.toBe(true);
+	});
+});
@@ -0,0 +1,70 @@
+import {TFile} from "obsidian";
+import {
+	choiceFromIssue,
+	choiceFromSyncedIssue,
+	filterChoices,
+	formatIssueLink,
+	IssueChoice,
+	mergeChoices,
+} from "../../src/IssueLinks/issue-links";
+import {Issue} from "../../src/GitlabLoader/issue-types";
+import {SyncedIssue} from "../../src/GitlabSync/issue-notes";
+
+const note = {path: 'Gitlab Issues/Fix login.md'} as TFile;
+
+function choice(iid: number, overrides: Partial<IssueChoice> = {}): IssueChoice {
+	return {
+		title: `Issue ${iid}`,
+		projectPath: 'group/app',
+		iid,
+		state: 'opened',
+		webUrl: `https://gitlab.com/group/app/-/issues/${iid}`,
+		file: null,
+		...overrides,
+	};
+}
+
+describe('choices', () => {
+	it('should take the project path from the web URL', () => {
+		const synced = {
+			file: note, iid: 12, title: 'Fix login', state: 'opened', project: 'group/sub/app#12',
+			webUrl: 'https://gitlab.com/group/sub/app/-/issues/12',
+		} as SyncedIssue;
+		const issue = {iid: 4, title: 'Export', state: 'closed', web_url: 'https://gitlab.com/group/app/-/issues/4'} as Issue;
+
+		expect(choiceFromSyncedIssue(synced)).toEqual(choice(12, {
+			title: 'Fix login', projectPath: 'group/sub/app', webUrl: synced.webUrl, file: note,
+		}));
+		expect(choiceFromIssue(issue)).toEqual(choice(4, {title: 'Export', state: 'closed'}));
+	});
+
+	it('should add found issues that have no synced note', () => {
+		const synced = [choice(1, {file: note})];
+
+		expect(mergeChoices(synced, [choice(2), choice(1)])).toEqual([choice(1, {file: note}), choice(2)]);
+	});
+
+	it('should match every word of the query against the reference and title', () => {
+		const choices = [choice(1, {title: 'Fix login'}), choice(12, {title: 'Login page', projectPath: 'group/web'})];
+
+		expect(filterChoices(choices, 'LOGIN web').map(({iid}) => iid)).toEqual([12]);
+		expect(filterChoices(choices, 'app#1').map(({iid}) => iid)).toEqual([1]);
+		expect(filterChoices(choices, '')).toEqual(choices);
+	});
+});
+
+describe('formatIssueLink', () => {
+	it('should link to the note and fall back to the URL', () => {
+		expect(formatIssueLink(choice(1, {file: note}), 'wikilink', '', '[[Fix login]]')).toBe('[[Fix login]]');
+		expect(formatIssueLink(choice(1), 'wikilink', '', null)).toBe('https://gitlab.com/group/app/-/issues/1');
+	});
+
+	it('should insert the URL', () => {
+		expect(formatIssueLink(choice(1, {file: note}), 'url', '', '[[Fix login]]')).toBe('https://gitlab.com/group/app/-/issues/1');
+	});
+
+	it('should shorten references to the default project', () => {
+		expect(formatIssueLink(choice(7), 'reference', 'group/app', null)).toBe('#7');
+		expect(formatIssueLink(choice(7), 'reference', 'group/other', null)).toBe('group/app#7');
+	});
+});
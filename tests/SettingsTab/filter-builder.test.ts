@@ -0,0 +1,59 @@
+import {emptyFilter, encodeQuery, parseFilter, serializeFilter} from '../../src/SettingsTab/filter-builder';
+
+describe('filter builder', () => {
+	it('should parse the default filter', () => {
+		expect(parseFilter('due_date=month')).toEqual({...emptyFilter(), dueDate: 'month'});
+	});
+
+	it('should parse labels to include and exclude', () => {
+		const filter = parseFilter('state=opened&labels=bug, ui&not[labels]=wontfix&assignee_username=jane');
+
+		expect(filter.state).toBe('opened');
+		expect(filter.labels).toEqual(['bug', 'ui']);
+		expect(filter.notLabels).toEqual(['wontfix']);
+		expect(filter.assigneeUsername).toBe('jane');
+	});
+
+	it('should keep parameters it has no control for', () => {
+		const filter = parseFilter('state=opened&weight=3&with_labels_details');
+
+		expect(filter.other).toEqual(['weight=3', 'with_labels_details']);
+		expect(serializeFilter(filter)).toBe('state=opened&weight=3&with_labels_details');
+	});
+
+	it('should serialize every control and leave out empty ones', () => {
+		expect(serializeFilter({
+			...emptyFilter(),
+			state: 'opened',
+			labels: ['bug', 'ui'],
+			notLabels: ['wontfix'],
+			milestone: 'v1.0',
+			scope: 'all',
+			dueDate: 'overdue',
+			search: 'login',
+			confidential: 'false',
+			iterationTitle: 'Sprint 4',
+			orderBy: 'due_date',
+			sort: 'asc',
+		})).toBe('state=opened&labels=bug,ui&not[labels]=wontfix&milestone=v1.0&scope=all&due_date=overdue' +
+			'&search=login&confidential=false&iteration_title=Sprint%204&order_by=due_date&sort=asc');
+		expect(serializeFilter(emptyFilter())).toBe('');
+	});
+
+	it('should encode each value on its own', () => {
+		const filter = {...emptyFilter(), labels: ['C++', 'to do'], search: 'a&b=c', milestone: 'v1#2'};
+
+		expect(serializeFilter(filter)).toBe('labels=C%2B%2B,to%20do&milestone=v1%232&search=a%26b%3Dc');
+		expect(parseFilter(serializeFilter(filter))).toEqual(filter);
+	});
+
+	it('should encode queries written either way the same', () => {
+		expect(encodeQuery('labels=C++,to do&search=50%&not[labels]=bug')).toBe('labels=C%2B%2B,to%20do&search=50%25&not%5Blabels%5D=bug');
+		expect(encodeQuery('labels=C%2B%2B,to%20do&search=50%25&not%5Blabels%5D=bug')).toBe('labels=C%2B%2B,to%20do&search=50%25&not%5Blabels%5D=bug');
+	});
+
+	it('should round trip existing filters', () => {
+		const filterString = 'state=opened&labels=bug&milestone=v1.0&due_date=month';
+		expect(serializeFilter(parseFilter(filterString))).toBe(filterString);
+	});
+});
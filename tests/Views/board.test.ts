@@ -0,0 +1,121 @@
+import {TFile} from "obsidian";
+import {buildColumns, getBoardMove, parseBoardLabels} from "../../src/Views/board";
+import {SyncedIssue} from "../../src/GitlabSync/issue-notes";
+
+function issue(iid: number, overrides: Partial<SyncedIssue> = {}): SyncedIssue {
+	return {
+		file: {path: `Gitlab Issues/${iid}.md`} as TFile,
+		id: iid * 100,
+		iid,
+		projectId: '1',
+		title: `Issue ${iid}`,
+		state: 'opened',
+		labels: [],
+		assignees: [],
+		milestone: null,
+		dueDate: null,
+		updatedAt: '2024-01-01T00:00:00Z',
+		webUrl: `https://gitlab.com/group/app/-/issues/${iid}`,
+		project: 'group/app',
+		connection: null,
+		...overrides,
+	};
+}
+
+function summarize(columns: ReturnType<typeof buildColumns>) {
+	return columns.map((column) => [column.title, column.issues.map((item) => item.iid)]);
+}
+
+describe('parseBoardLabels', () => {
+	it('should split scopes from labels', () => {
+		expect(parseBoardLabels('workflow::*, priority::high ,, Bug')).toEqual({
+			scopes: ['workflow::'],
+			labels: ['priority::high', 'Bug'],
+		});
+	});
+});
+
+describe('buildColumns', () => {
+	it('should group by state', () => {
+		const columns = buildColumns([issue(1), issue(2, {state: 'closed'}), issue(3)], 'state', '');
+
+		expect(summarize(columns)).toEqual([['Open', [1, 3]], ['Closed', [2]]]);
+	});
+
+	it('should make a column for every label of a scope', () => {
+		const issues = [
+			issue(1, {labels: ['workflow::doing', 'Bug']}),
+			issue(2, {labels: ['Bug']}),
+			issue(3, {labels: ['workflow::todo']}),
+		];
+
+		expect(summarize(buildColumns(issues, 'labels', 'workflow::*'))).toEqual([
+			['Open', [2]],
+			['workflow::doing', [1]],
+			['workflow::todo', [3]],
+		]);
+	});
+
+	it('should keep configured labels in order, even without issues', () => {
+		const issues = [issue(1, {labels: ['workflow::doing']})];
+
+		expect(summarize(buildColumns(issues, 'labels', 'workflow::todo, workflow::doing, workflow::review'))).toEqual([
+			['Open', []],
+			['workflow::todo', []],
+			['workflow::doing', [1]],
+			['workflow::review', []],
+		]);
+	});
+
+	it('should group by first assignee and by milestone', () => {
+		const issues = [
+			issue(1, {assignees: ['bob', 'alice'], milestone: 'v2'}),
+			issue(2, {assignees: ['alice']}),
+			issue(3, {milestone: 'v1'}),
+		];
+
+		expect(summarize(buildColumns(issues, 'assignee', ''))).toEqual([
+			['Unassigned', [3]],
+			['alice', [2]],
+			['bob', [1]],
+		]);
+		expect(summarize(buildColumns(issues, 'milestone', ''))).toEqual([
+			['No milestone', [2]],
+			['v1', [3]],
+			['v2', [1]],
+		]);
+	});
+});
+
+describe('getBoardMove', () => {
+	it('should not move an issue to its own column', () => {
+		expect(getBoardMove(issue(1), 'state', '', 'opened')).toBeNull();
+		expect(getBoardMove(issue(1, {labels: ['workflow::todo']}), 'labels', 'workflow::*', 'workflow::todo')).toBeNull();
+	});
+
+	it('should close and reopen issues', () => {
+		expect(getBoardMove(issue(1), 'state', '', 'closed')).toEqual({kind: 'state', stateEvent: 'close'});
+		expect(getBoardMove(issue(1, {state: 'closed'}), 'state', '', 'opened')).toEqual({kind: 'state', stateEvent: 'reopen'});
+	});
+
+	it('should swap board labels and keep other labels', () => {
+		const moved = issue(1, {labels: ['Bug', 'workflow::todo']});
+
+		expect(getBoardMove(moved, 'labels', 'workflow::*', 'workflow::doing')).toEqual({
+			kind: 'labels',
+			add: ['workflow::doing'],
+			remove: ['workflow::todo'],
+		});
+		expect(getBoardMove(moved, 'labels', 'workflow::*', '')).toEqual({
+			kind: 'labels',
+			add: [],
+			remove: ['workflow::todo'],
+		});
+	});
+
+	it('should change or clear the assignee and milestone', () => {
+		expect(getBoardMove(issue(1), 'assignee', '', 'alice')).toEqual({kind: 'assignee', username: 'alice'});
+		expect(getBoardMove(issue(1, {assignees: ['alice']}), 'assignee', '', '')).toEqual({kind: 'assignee', username: null});
+		expect(getBoardMove(issue(1, {milestone: 'v1'}), 'milestone', '', '')).toEqual({kind: 'milestone', title: null});
+	});
+});
@@ -0,0 +1,101 @@
+import {TFile} from "obsidian";
+import {EMPTY_FILTER, filterIssues, getProjectPath, sortIssues, toDateString} from "../../src/Views/issue-list";
+import {SyncedIssue} from "../../src/GitlabSync/issue-notes";
+
+function issue(iid: number, overrides: Partial<SyncedIssue> = {}): SyncedIssue {
+	return {
+		file: {path: `Gitlab Issues/${iid}.md`} as TFile,
+		id: iid * 100,
+		iid,
+		projectId: '1',
+		title: `Issue ${iid}`,
+		state: 'opened',
+		labels: [],
+		assignees: [],
+		milestone: null,
+		dueDate: null,
+		updatedAt: '2024-01-01T00:00:00Z',
+		webUrl: `https://gitlab.com/group/app/-/issues/${iid}`,
+		project: `group/app#${iid}`,
+		connection: null,
+		...overrides,
+	};
+}
+
+// A Wednesday
+const today = new Date(2024, 4, 15);
+
+function iids(issues: Array<SyncedIssue>): Array<number> {
+	return issues.map((item) => item.iid);
+}
+
+describe('toDateString', () => {
+	it('should format local dates like GitLab due dates', () => {
+		expect(toDateString(new Date(2024, 0, 5))).toBe('2024-01-05');
+	});
+});
+
+describe('getProjectPath', () => {
+	it('should strip the issue number from the reference', () => {
+		expect(getProjectPath(issue(12))).toBe('group/app');
+		expect(getProjectPath(issue(12, {project: 'group/sub/app'}))).toBe('group/sub/app');
+	});
+});
+
+describe('filterIssues', () => {
+	const issues = [
+		issue(1, {title: 'Fix login', labels: ['bug'], assignees: ['alice'], dueDate: '2024-05-14'}),
+		issue(2, {title: 'Add export', dueDate: '2024-05-19', project: 'group/other#2'}),
+		issue(3, {title: 'Old login bug', state: 'closed', labels: ['bug'], dueDate: '2024-05-01'}),
+		issue(4, {title: 'Plan release', dueDate: '2024-05-20', assignees: ['bob']}),
+	];
+
+	it('should hide closed issues unless asked for', () => {
+		expect(iids(filterIssues(issues, EMPTY_FILTER, [], today))).toEqual([1, 2, 4]);
+		expect(iids(filterIssues(issues, {...EMPTY_FILTER, includeClosed: true}, [], today))).toEqual([1, 2, 3, 4]);
+	});
+
+	it('should search titles, projects and labels', () => {
+		expect(iids(filterIssues(issues, {...EMPTY_FILTER, search: ' LOGIN ', includeClosed: true}, [], today))).toEqual([1, 3]);
+		expect(iids(filterIssues(issues, {...EMPTY_FILTER, search: 'other'}, [], today))).toEqual([2]);
+	});
+
+	it('should find issues assigned to any of the current users', () => {
+		expect(iids(filterIssues(issues, {...EMPTY_FILTER, assignedToMe: true}, ['bob', 'alice'], today))).toEqual([1, 4]);
+		expect(iids(filterIssues(issues, {...EMPTY_FILTER, assignedToMe: true}, [], today))).toEqual([]);
+	});
+
+	it('should find issues due this week and overdue issues', () => {
+		expect(iids(filterIssues(issues, {...EMPTY_FILTER, dueThisWeek: true}, [], today))).toEqual([2]);
+		expect(iids(filterIssues(issues, {...EMPTY_FILTER, overdue: true, includeClosed: true}, [], today))).toEqual([1]);
+	});
+
+	it('should filter by label and project', () => {
+		expect(iids(filterIssues(issues, {...EMPTY_FILTER, label: 'bug'}, [], today))).toEqual([1]);
+		expect(iids(filterIssues(issues, {...EMPTY_FILTER, project: 'group/app'}, [], today))).toEqual([1, 4]);
+	});
+});
+
+describe('sortIssues', () => {
+	const issues = [
+		issue(1, {title: 'b', dueDate: null, updatedAt: '2024-05-02T00:00:00Z'}),
+		issue(2, {title: 'c', dueDate: '2024-06-01', updatedAt: '2024-05-03T00:00:00Z', project: 'alpha/app#2'}),
+		issue(3, {title: 'a', dueDate: '2024-05-20', updatedAt: '2024-05-01T00:00:00Z'}),
+	];
+
+	it('should sort by due date with undated issues last', () => {
+		expect(iids(sortIssues(issues, 'due'))).toEqual([3, 2, 1]);
+	});
+
+	it('should sort by update, title and project', () => {
+		expect(iids(sortIssues(issues, 'updated'))).toEqual([2, 1, 3]);
+		expect(iids(sortIssues(issues, 'title'))).toEqual([3, 1, 2]);
+		expect(iids(sortIssues(issues, 'project'))).toEqual([2, 1, 3]);
+	});
+
+	it('should not change the given list', () => {
+		sortIssues(issues, 'title');
+
+		expect(iids(issues)).toEqual([1, 2, 3]);
+	});
+});
@@ -0,0 +1,38 @@
+import {getNestedDirs, isOwnedNote, OutputTarget} from "../src/filesystem";
+
+const target: OutputTarget = {
+	outputDir: '/Gitlab Issues/',
+	templateFile: '',
+	defaultTemplate: '',
+	itemName: 'Issue',
+	syncSources: ['project:1'],
+	knownSources: ['project:1', 'project:2', 'merge_requests'],
+	otherDirs: ['/Gitlab Issues/app/'],
+};
+
+describe('getNestedDirs', () => {
+	it('should find the folders that are the output folder or inside it', () => {
+		expect(getNestedDirs('/Gitlab Issues/', ['Gitlab Issues', 'Gitlab Issues/app/', '/Gitlab Issues Archive/', 'Work']))
+			.toEqual(['Gitlab Issues', 'Gitlab Issues/app/']);
+	});
+});
+
+describe('isOwnedNote', () => {
+	it('should own the notes of its sources, wherever they are', () => {
+		expect(isOwnedNote(target, 'Gitlab Issues/Issue 1.md', 'project:1')).toBe(true);
+		expect(isOwnedNote(target, 'Gitlab Issues/app/Issue 1.md', 'project:1')).toBe(true);
+	});
+
+	it('should leave the notes of other sources sharing or nested in its folder alone', () => {
+		expect(isOwnedNote(target, 'Gitlab Issues/Issue 2.md', 'project:2')).toBe(false);
+		expect(isOwnedNote(target, 'Gitlab Issues/app/Issue 2.md', 'project:2')).toBe(false);
+		expect(isOwnedNote(target, 'Gitlab Issues/Merge request 3.md', 'merge_requests')).toBe(false);
+	});
+
+	it('should only own notes without a known source outside the folders of other targets', () => {
+		expect(isOwnedNote(target, 'Gitlab Issues/Issue 4.md', undefined)).toBe(true);
+		expect(isOwnedNote(target, 'Gitlab Issues/Issue 5.md', 'project:removed')).toBe(true);
+		expect(isOwnedNote(target, 'Gitlab Issues/app/Issue 4.md', undefined)).toBe(false);
+		expect(isOwnedNote({...target, otherDirs: ['Gitlab Issues']}, 'Gitlab Issues/Issue 4.md', undefined)).toBe(false);
+	});
+});
@@ -1,4 +1,4 @@
-import {DEFAULT_TEMPLATE, logger, sanitizeFileName} from '../../src/utils/utils';
+import {compileTemplate, DEFAULT_TEMPLATE, logger, renderFileName, renderFolder, replaceManagedRegion, sanitizeFileName} from '../../src/utils/utils';
 
 describe('Utils', () => {
 	describe('sanitizeFileName', () => {
@@ -48,6 +48,60 @@ describe('Utils', () => {
 		);
 	});
 
+	describe('renderFileName', () => {
+		const item = {
+			iid: 42,
+			title: 'Crash on "save"',
+			references: {full: 'group/sub/app#42'},
+		};
+
+		it('should sanitize values so they cannot create folders', () => {
+			expect(renderFileName('{{references.full}} - {{title}}', item)).toBe('group-sub-app#42 - Crash on -save-');
+		});
+
+		it('should create subfolders for slashes in the pattern', () => {
+			expect(renderFileName('{{project}}/{{iid}}', item)).toBe('group-sub-app/42');
+		});
+
+		it('should drop empty and relative path segments', () => {
+			expect(renderFileName('{{milestone.title}}/../{{iid}}', item)).toBe('42');
+		});
+
+		it('should fall back to the iid when the pattern renders nothing', () => {
+			expect(renderFileName('{{unknown}}', item)).toBe('42');
+		});
+	});
+
+	describe('renderFolder', () => {
+		const item = {
+			iid: 42,
+			references: {full: 'group/sub/app#42'},
+			milestone: {title: 'Release 1/2'},
+		};
+
+		it('should not use a folder for the flat layout', () => {
+			expect(renderFolder('flat', '', item)).toBe('');
+		});
+
+		it('should use the project name for the project layout', () => {
+			expect(renderFolder('project', '', item)).toBe('app');
+		});
+
+		it('should mirror the project path for the group/project layout', () => {
+			expect(renderFolder('group-project', '', item)).toBe('group/sub/app');
+		});
+
+		it('should use the milestone title for the milestone layout', () => {
+			expect(renderFolder('milestone', '', item)).toBe('Release 1-2');
+			expect(renderFolder('milestone', '', {...item, milestone: null})).toBe('No milestone');
+		});
+
+		it('should render the folder template for the template layout', () => {
+			expect(renderFolder('template', '{{project}}/{{milestone.title}}', item)).toBe('group-sub-app/Release 1-2');
+			expect(renderFolder('template', '{{unknown}}', item)).toBe('');
+		});
+	});
+
 	describe('logger', () => {
 		it('should log the message with the correct prefix', () => {
 			const message = 'This is a test message';
@@ -64,12 +118,23 @@ describe('Utils', () => {
 	describe('DEFAULT_TEMPLATE', () => {
 		it('should return the DEFAULT TEMPLATE', () => {
 			expect(DEFAULT_TEMPLATE).toStrictEqual(`---
+kind: issue
 id: {{id}}
+iid: {{iid}}
+projectId: {{project_id}}
 title: {{{title}}}
+state: {{state}}
+labels: {{{json labels}}}
+assignees: {{{json (pluck assignees "username")}}}
+milestone: {{{json milestone.title}}}
 dueDate: {{due_date}}
+updatedAt: {{updated_at}}
 webUrl: {{web_url}}
 project: {{references.full}}
+connection: {{{json connection}}}
+source: {{{json source}}}
 ---
+<!-- gitlab:start -->
 
 ### {{{title}}}
 ##### Due on {{due_date}}
@@ -77,7 +142,63 @@ project: {{references.full}}
 {{{description}}}
 
 [View On Gitlab]({{web_url}})
+
+{{#if notes}}
+
+### Discussion
+{{#each notes}}
+{{#unless system}}
+
+**{{author.name}}** on {{created_at}}
+
+{{{body}}}
+{{#each replies}}
+
+↳ **{{author.name}}** on {{created_at}}
+
+{{{body}}}
+{{/each}}
+{{/unless}}
+{{/each}}
+{{/if}}
+<!-- gitlab:end -->
 `);
 		})
 	})
+
+	describe('replaceManagedRegion', () => {
+		const existing = '---\nid: 1\n---\n<!-- gitlab:start -->\nOld description\n<!-- gitlab:end -->\n\nMy meeting notes\n';
+
+		it('should only replace the managed region', () => {
+			const rendered = '---\nid: 1\n---\n<!-- gitlab:start -->\nNew description\n<!-- gitlab:end -->\n';
+			expect(replaceManagedRegion(existing, rendered))
+				.toBe('---\nid: 1\n---\n<!-- gitlab:start -->\nNew description\n<!-- gitlab:end -->\n\nMy meeting notes\n');
+		});
+
+		it('should keep markers quoted in the description inside the region', () => {
+			const quoted = '<!-- gitlab:start -->\nUse `<!-- gitlab:end -->` to end it\nMore text\n<!-- gitlab:end -->\n';
+			expect(replaceManagedRegion(existing, `---\nid: 1\n---\n${quoted}`))
+				.toBe(`---\nid: 1\n---\n${quoted}\nMy meeting notes\n`);
+			expect(replaceManagedRegion(`---\nid: 1\n---\n${quoted}\nMy meeting notes\n`, existing.replace('Old', 'New')))
+				.toBe(existing.replace('Old', 'New'));
+		});
+
+		it('should leave notes without markers alone', () => {
+			expect(replaceManagedRegion('---\nid: 1\n---\nMy notes', existing)).toBeNull();
+			expect(replaceManagedRegion(existing, '---\nid: 1\n---\nNo markers')).toBeNull();
+		});
+	});
+
+	describe('compileTemplate', () => {
+		it('should render values as JSON', () => {
+			const template = compileTemplate('labels: {{{json labels}}}\nmilestone: {{{json milestone.title}}}');
+			expect(template({labels: ['bug', 'needs: review']})).toBe('labels: ["bug","needs: review"]\nmilestone: null');
+		});
+
+		it('should pluck a property from a list', () => {
+			const template = compileTemplate('{{{json (pluck assignees "username")}}}');
+			expect(template({assignees: [{username: 'jane'}, {username: 'joe'}]})).toBe('["jane","joe"]');
+			expect(template({})).toBe('[]');
+		});
+	});
 });